@@ -4,18 +4,57 @@
  * Now split into a small CLI entry that delegates to lib/llm-core.
  */
 
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import consola from "consola";
 import { readFileSync } from "node:fs";
 import { promptTemplates } from "../prompts.js";
 import type { CLIOptions } from "../lib/config.js";
 import { loadConfig } from "../lib/config.js";
-import { listAllTools } from "../lib/mcp.js";
+import { listAllResources, listAllTools } from "../lib/mcp.js";
 import {
   listPrompts as listPromptTemplates,
   chatWithOpenAI,
 } from "../lib/llm-core.js";
-import { listAgents } from "../lib/agents.js";
+import { getAgent, listAgents } from "../lib/agents.js";
+import {
+  newThread,
+  saveThread,
+  getThread,
+  getLatestThread,
+  listThreads,
+  deleteThread,
+} from "../lib/threads.js";
+import {
+  readStdinAttachment,
+  formatStdinAttachment,
+  DEFAULT_STDIN_MAX_BYTES,
+} from "../lib/stdin.js";
+import { runRepl } from "../lib/repl.js";
+import { formatDoctorTable, runDoctor } from "../lib/doctor.js";
+import { installInterruptHandler } from "../lib/interrupt.js";
+import {
+  agentForServer,
+  getServerPrompt,
+  transientServerAgent,
+} from "../lib/server-prompts.js";
+import {
+  createUsageNode,
+  formatUsageSummary,
+  summarizeUsage,
+} from "../lib/usage.js";
+import {
+  budgetsFromOptions,
+  createRunBudget,
+  EXIT_BUDGET_EXHAUSTED,
+} from "../lib/budget.js";
+import { createAgentTrace, type TraceSink } from "../lib/trace.js";
+import {
+  startRecording,
+  startReplay,
+  replayMismatches,
+  EXIT_REPLAY_DIVERGED,
+} from "../lib/recording.js";
+
 import {
   listMcpServers as agentGenListMcpServers,
   createAgentFile as agentGenCreateAgentFile,
@@ -24,6 +63,24 @@ import {
   generateAgentsFromUseCase as agentGenGenerateFromUseCase,
 } from "../lib/agentgen.js";
 
+// Commander value parsers for numeric budget flags
+function parsePositiveNumber(value: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new InvalidArgumentError("Expected a positive number.");
+  }
+  return n;
+}
+
+// Step and depth limits are counts
+function parsePositiveInteger(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new InvalidArgumentError("Expected a positive integer.");
+  }
+  return n;
+}
+
 // -------------------------
 // Main
 // -------------------------
@@ -39,6 +96,16 @@ async function main() {
       "List MCP tools grouped by server (read-only discovery)",
       false
     )
+    .option(
+      "--list-resources",
+      "List MCP resources grouped by server (read-only discovery)",
+      false
+    )
+    .option(
+      "--doctor",
+      "Check MCP servers and tool names in config (exit 1 on failures)",
+      false
+    )
     .option("--list-prompts", "List all available prompts", false)
     .option(
       "--list-agents",
@@ -88,13 +155,54 @@ async function main() {
       "Bypass tool confirmation requirements",
       false
     )
-    .option("--force-refresh", "Force refresh of tools capabilities", false)
+    .option(
+      "--force-refresh",
+      "Ignore and rebuild the cached tool lists of MCP servers",
+      false
+    )
     .option("--text-only", "Print output as raw text", false)
     .option("--no-tools", "Do not add any tools", false)
     .option("--intermediates", "Also print intermediates", true)
     .option("--no-intermediates", "Do not print intermediates", false)
     .option("--show-memories", "Show user memories", false)
     .option("--model <model>", "Override the model specified in config")
+    .option("--stream", "Stream tokens as they arrive", false)
+    .option(
+      "--output <format>",
+      "Output format: text, json (one record at the end) or jsonl (events as they happen)",
+      "text"
+    )
+    .option(
+      "--usage",
+      "Print token usage and cost per agent to stderr after the run",
+      false
+    )
+    .option("--usage-json", "Same as --usage, printed as JSON", false)
+    .option(
+      "--max-steps <n>",
+      "Max model turns per agent invocation (default 32)",
+      parsePositiveInteger
+    )
+    .option(
+      "--max-depth <n>",
+      "Max call_agent delegation depth (default 5)",
+      parsePositiveInteger
+    )
+    .option(
+      "--max-seconds <n>",
+      "Wall-clock budget for the whole run, in seconds",
+      parsePositiveNumber
+    )
+    .option(
+      "--max-tokens <n>",
+      "Total token budget for the whole run",
+      parsePositiveNumber
+    )
+    .option(
+      "--interactive",
+      "Start an interactive REPL (servers stay connected between turns)",
+      false
+    )
     .option(
       "--agents <names>",
       "Comma-separated list of allowed agents for delegation and selection"
@@ -102,6 +210,26 @@ async function main() {
     .option(
       "--agents-text-file <path>",
       "Path to a text file with one agent name per line"
+    )
+    .option("--thread <id>", "Continue a stored conversation thread by id")
+    .option("--list-threads", "List stored conversation threads", false)
+    .option("--delete-thread <id>", "Delete a stored conversation thread")
+    .option(
+      "--stdin",
+      "Attach stdin even when it is not a pipe or file (it is read until EOF)",
+      false
+    )
+    .option(
+      "--stdin-max-bytes <n>",
+      "Maximum bytes of piped stdin to attach (larger input is truncated)"
+    )
+    .option(
+      "--record <dir>",
+      "Record model and MCP exchanges of this run into <dir>"
+    )
+    .option(
+      "--replay <dir>",
+      "Serve model and MCP exchanges from a recording instead of live services"
     );
 
   program.addHelpText(
@@ -109,11 +237,27 @@ async function main() {
     `
  Examples:
    llm "What is the capital of France?"
-   llm c "tell me more"                    (continue previous conversation - planned)
+   llm c "tell me more"                    (continue the most recent conversation)
+   llm --thread 1a2b3c4d "and then?"       (continue a specific conversation)
+   llm --list-threads
+   llm --delete-thread 1a2b3c4d
    llm p review                            (use a prompt template)
-   cat file.txt | llm                      (stdin pipeline - planned)
+   llm p gmail/triage label=Newsletter     (run a prompt published by MCP server "gmail")
+   cat file.txt | llm                      (stdin is attached to the query)
+   git diff | llm p review                 (template + piped attachment)
+   llm --stream "Explain MCP in detail"    (print tokens as they arrive)
+   llm --interactive --agent researcher    (REPL; /help lists slash commands)
+   llm --usage --agent gmail_labeler "..." (token usage and cost tree on stderr)
+   llm --usage-json "..."                  (same summary as JSON)
+   llm --output json "..." | jq .answer    (structured run record; logs go to stderr)
+   llm --output jsonl --agent researcher "..."  (one trace event per line)
+   llm --record runs/triage --agent gmail_labeler "..."  (save model and MCP traffic)
+   llm --replay runs/triage --agent gmail_labeler "..."  (rerun offline; reports divergences)
+   llm --max-steps 10 --max-seconds 300 --max-tokens 200000 "..."  (run budgets; exit status 3 when exhausted)
+   llm --doctor                            (check MCP servers and tool names in config; exit 1 on failures)
    llm --list-tools
    llm --list-tools-by-server              (same as --list-tools; grouped by server)
+   llm --list-resources                    (MCP resources grouped by server)
    llm --list-prompts
    llm --list-agents
    llm --list-mcp-servers                  (show configured servers without connecting)
@@ -151,16 +295,54 @@ async function main() {
       generateFromUseCase?: string;
       dryRun?: boolean;
       addGeneratedAgentsTo?: string;
+      thread?: string;
+      listThreads?: boolean;
+      deleteThread?: string;
+      stdinMaxBytes?: string;
+      interactive?: boolean;
+      usage?: boolean;
+      usageJson?: boolean;
+      listResources?: boolean;
+      doctor?: boolean;
+      record?: string;
+      replay?: string;
+      stdin?: boolean;
     } = command?.opts?.() ?? {};
     const positionalRaw = actionArgs.slice(0, -1);
     // Flatten nested arrays and keep only strings
     const queryParts: string[] = positionalRaw
       .flat(Infinity)
       .filter((v: any) => typeof v === "string");
-    let queryText = queryParts.join(" ").trim();
+    // A "-" query word asks for stdin explicitly, like --stdin
+    const explicitStdin = !!flags.stdin || queryParts.includes("-");
+    let queryText = queryParts
+      .filter((p) => p !== "-")
+      .join(" ")
+      .trim();
+
+    if (!["text", "json", "jsonl"].includes(flags.output ?? "text")) {
+      consola.error(
+        `Invalid --output '${flags.output}': expected text, json or jsonl`
+      );
+      process.exit(1);
+    }
+    const machineOutput = flags.output === "json" || flags.output === "jsonl";
+    if (machineOutput) {
+      // Logs go to stderr; stdout carries only the structured run record
+      consola.options.stdout = process.stderr;
+    }
+
+    if (flags.record && flags.replay) {
+      consola.error("--record and --replay cannot be used together");
+      process.exit(1);
+    }
 
     try {
       const app = loadConfig();
+      if (flags.record) startRecording(flags.record);
+      if (flags.replay) startReplay(flags.replay);
+      // Ctrl-C cancels running tool calls; a second Ctrl-C closes the servers and exits
+      installInterruptHandler();
 
       // Parse agents allowlists from CLI flags (--agents and --agents-text-file)
       try {
@@ -251,7 +433,7 @@ async function main() {
 
       // Routing flags first
       if (flags.listPrompts) {
-        await listPromptTemplates();
+        await listPromptTemplates(app);
         return;
       }
 
@@ -277,6 +459,7 @@ async function main() {
             force: !!flags.force,
             dryRun: !!flags.dryRun,
             addToListFile: flags.addGeneratedAgentsTo,
+            forceRefresh: flags.forceRefresh,
           }
         );
         process.exit(0);
@@ -315,6 +498,18 @@ async function main() {
         process.exit(0);
       }
 
+      if (flags.listResources) {
+        await listAllResources(app);
+        process.exit(0);
+      }
+
+      // Server and config health checks
+      if (flags.doctor) {
+        const checks = await runDoctor(app);
+        console.log(formatDoctorTable(checks));
+        process.exit(checks.some((c) => c.status === "fail") ? 1 : 0);
+      }
+
       if (flags.listAgents) {
         const names = listAgents(app);
         if (!names.length) {
@@ -329,6 +524,32 @@ async function main() {
         process.exit(0);
       }
 
+      if (flags.listThreads) {
+        const threads = await listThreads();
+        if (!threads.length) {
+          consola.info("No stored threads.");
+        } else {
+          console.log("\n\x1b[1mConversation Threads\x1b[0m\n");
+          for (const t of threads) {
+            const scope = t.agent ? ` [agent:${t.agent}]` : "";
+            console.log(
+              `- ${t.id}${scope} ${t.updatedAt.slice(0, 16).replace("T", " ")} ${t.title}`
+            );
+          }
+          console.log("");
+        }
+        process.exit(0);
+      }
+
+      if (flags.deleteThread) {
+        if (await deleteThread(flags.deleteThread)) {
+          consola.success(`Deleted thread ${flags.deleteThread}`);
+          process.exit(0);
+        }
+        consola.error(`Thread '${flags.deleteThread}' not found.`);
+        process.exit(1);
+      }
+
       if (flags.showMemories) {
         consola.info(
           "show-memories not implemented yet (planned: lowdb store)."
@@ -336,15 +557,57 @@ async function main() {
         return;
       }
 
+      if (flags.interactive) {
+        await runRepl(app, flags);
+        process.exit(0);
+      }
+
+      // Piped stdin (e.g. `git diff | llm p review`) is attached to the query as a delimited block
+      const stdinMaxBytes = flags.stdinMaxBytes
+        ? Number(flags.stdinMaxBytes)
+        : app.stdin?.max_bytes;
+      if (
+        stdinMaxBytes !== undefined &&
+        !(Number.isInteger(stdinMaxBytes) && stdinMaxBytes > 0)
+      ) {
+        consola.error(
+          `Invalid stdin size cap '${flags.stdinMaxBytes ?? app.stdin?.max_bytes}': expected a positive integer`
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const attachment = await readStdinAttachment(
+        stdinMaxBytes,
+        explicitStdin
+      );
+      if (attachment?.truncated) {
+        consola.warn(
+          `Piped stdin is larger than ${stdinMaxBytes ?? DEFAULT_STDIN_MAX_BYTES} bytes; truncated`
+        );
+      }
+
       // Parse query: prompt templates support ("p <name> ...")
-      if (!queryText) {
+      if (!queryText && !attachment) {
         consola.error("No query provided");
         process.exitCode = 1;
         return;
       }
 
       const tokens = queryText.split(/\s+/);
-      if (tokens[0] === "p" && tokens[1]) {
+      let continueThread = false;
+      if (tokens[0] === "p" && tokens[1]?.includes("/")) {
+        // Server prompt (<server>/<prompt>): run it under an agent that can use that server
+        const prompt = await getServerPrompt(app, tokens[1], tokens.slice(2));
+        queryText = prompt.text;
+        if (!flags.agent) {
+          const scope = agentForServer(app, prompt.server);
+          if (scope.transient) {
+            app.agents = { ...app.agents, [scope.name]: scope.transient };
+          }
+          flags.agent = scope.name;
+          consola.info(`Running ${tokens[1]} under agent ${scope.name}`);
+        }
+      } else if (tokens[0] === "p" && tokens[1]) {
         const name = tokens[1];
         const tpl = promptTemplates[name];
         if (!tpl) {
@@ -367,12 +630,110 @@ async function main() {
           (_: string, k: string) => dict[k] ?? ""
         );
       } else if (tokens[0] === "c") {
-        // planned: continue previous conversation (thread id)
+        // Continue a previous conversation: --thread <id> if given, else the most recent one
         queryText = tokens.slice(1).join(" ");
+        continueThread = true;
+      }
+
+      if (attachment) {
+        queryText = [queryText, formatStdinAttachment(attachment)]
+          .filter(Boolean)
+          .join("\n\n");
+      }
+
+      let thread;
+      if (flags.thread || continueThread) {
+        thread = flags.thread
+          ? await getThread(flags.thread)
+          : await getLatestThread();
+        if (!thread) {
+          consola.error(
+            flags.thread
+              ? `Thread '${flags.thread}' not found. Use --list-threads to see stored threads.`
+              : "No previous thread to continue."
+          );
+          process.exitCode = 1;
+          return;
+        }
+        // Resume under the agent scope the thread was started with
+        flags.agent = thread.agent;
+        const transient =
+          thread.agent && transientServerAgent(app, thread.agent);
+        if (transient) {
+          app.agents = { ...app.agents, [thread.agent!]: transient };
+        }
+      } else {
+        thread = newThread(queryText, flags.agent);
       }
 
-      let result = await chatWithOpenAI(app, queryText, flags);
-      console.log(result);
+      const usage = createUsageNode(flags.agent ?? "orchestrator");
+      const budget = createRunBudget(
+        budgetsFromOptions(flags),
+        flags.agent ? getAgent(app, flags.agent)?.budgets : undefined,
+        app.budgets
+      );
+      const trace = machineOutput
+        ? createAgentTrace("0", flags.agent ?? "orchestrator", 0, queryText)
+        : undefined;
+      const sink: TraceSink = {
+        emit:
+          flags.output === "jsonl"
+            ? (event) => process.stdout.write(JSON.stringify(event) + "\n")
+            : undefined,
+      };
+      let result = await chatWithOpenAI(app, queryText, flags, 0, thread, {
+        usage,
+        budget,
+        trace,
+        sink,
+      });
+      await saveThread(thread);
+      const mismatches = replayMismatches();
+      for (const note of mismatches) {
+        consola.warn(`Replay: ${note}`);
+      }
+      if (flags.usage || flags.usageJson) {
+        // Usage goes to stderr so stdout stays the answer only
+        const summary = summarizeUsage(usage);
+        console.error(
+          flags.usageJson
+            ? JSON.stringify(summary, null, 2)
+            : formatUsageSummary(summary)
+        );
+      }
+      if (flags.output === "json") {
+        console.log(
+          JSON.stringify(
+            {
+              answer: result,
+              thread_id: thread.id,
+              exhausted: budget.exhausted ?? null,
+              usage: summarizeUsage(usage).total,
+              trace,
+            },
+            null,
+            2
+          )
+        );
+      } else if (flags.output === "jsonl") {
+        sink.emit?.({
+          event: "run_end",
+          answer: result,
+          thread_id: thread.id,
+          exhausted: budget.exhausted ?? null,
+          usage: summarizeUsage(usage).total,
+        });
+      } else if (!flags.stream) {
+        // Streaming already printed the answer token by token
+        console.log(result);
+      }
+      if (mismatches.length) {
+        process.exit(EXIT_REPLAY_DIVERGED);
+      }
+      if (budget.exhausted) {
+        consola.warn(`Run stopped early: ${budget.exhausted}`);
+        process.exit(EXIT_BUDGET_EXHAUSTED);
+      }
       // Ensure the CLI terminates after the chat completes (avoid lingering stdio handles)
       process.exit(0);
     } catch (err: any) {
@@ -8,6 +8,7 @@ import {
 } from "comment-json";
 import type { AppConfig, AgentConfig, AgentServerPolicy } from "../types.js";
 import { loadAgents as loadAgentsMerged } from "./agents.js";
+import { maskSecrets } from "./secrets.js";
 
 /**
  * Determine a writable agents directory.
@@ -70,13 +71,16 @@ export function listMcpServers(app: AppConfig) {
   console.log("\n\x1b[1mConfigured MCP Servers\x1b[0m\n");
   for (const [name, conf] of entries) {
     const enabled = conf.enabled !== false;
-    const transport = conf?.sse?.url
-      ? `sse (${conf.sse.url})`
-      : conf?.command
-        ? `stdio (command: ${conf.command})`
-        : "invalid (missing sse.url or command)";
+    const transport = conf?.http?.url
+      ? `http (${conf.http.url}, falls back to sse)`
+      : conf?.sse?.url
+        ? `sse (${conf.sse.url})`
+        : conf?.command
+          ? `stdio (command: ${conf.command})`
+          : "invalid (missing http.url, sse.url or command)";
     const status = enabled ? "enabled" : "disabled";
-    console.log(`- ${name} [${status}] -> ${transport}`);
+    // Values from ${env:}/${file:} references may be secrets (tokens in URLs, ...)
+    console.log(maskSecrets(`- ${name} [${status}] -> ${transport}`));
   }
   console.log("");
 }
@@ -239,8 +243,8 @@ export function listAgentsMerged(app: Pick<AppConfig, "agents" | "agentsDir">) {
 }
 
 // appended: AI-powered agent generation from a use case
-import { connectServer } from "./mcp.js";
-import { makeOpenAI } from "./llm-core.js";
+import { loadServerTools, serverTransport } from "./mcp.js";
+import { makeLLMClient } from "./llm-core.js";
 import { normalizeMcpContentToString } from "./util.js";
 
 /**
@@ -248,7 +252,8 @@ import { normalizeMcpContentToString } from "./util.js";
  * No tool invocation is performed. Returns map: server -> Set(toolName)
  */
 export async function discoverServerTools(
-  app: AppConfig
+  app: AppConfig,
+  opts: { forceRefresh?: boolean } = {}
 ): Promise<Map<string, Set<string>>> {
   const out = new Map<string, Set<string>>();
   const servers = Object.entries(app.mcpServers || {}).filter(
@@ -261,17 +266,17 @@ export async function discoverServerTools(
   }> = [];
   try {
     for (const [name, conf] of servers) {
-      // sanity: require sse.url or command
-      const hasSse = !!(conf as any)?.sse?.url;
-      const hasCmd = !!(conf?.command && typeof conf.command === "string");
-      if (!hasSse && !hasCmd) continue;
+      // sanity: require http.url, sse.url or command
+      if (!serverTransport(conf)) continue;
       try {
-        const s = await connectServer(name, conf);
-        connected.push(s as any);
-        const lst = await (s as any).client.listTools();
-        const tools = (lst?.tools ?? [])
-          .map((t: any) => t?.name)
-          .filter(Boolean);
+        const { server, tools: listed } = await loadServerTools(
+          app,
+          name,
+          conf,
+          opts
+        );
+        connected.push(server);
+        const tools = listed.map((t: any) => t?.name).filter(Boolean);
         out.set(name, new Set<string>(tools));
       } catch (e: any) {
         consola.warn(
@@ -335,7 +340,12 @@ type GenerationResponse = {
 export async function generateAgentsFromUseCase(
   app: AppConfig,
   useCase: string,
-  opts?: { force?: boolean; dryRun?: boolean; addToListFile?: string }
+  opts?: {
+    force?: boolean;
+    dryRun?: boolean;
+    addToListFile?: string;
+    forceRefresh?: boolean;
+  }
 ) {
   if (!useCase || !useCase.trim()) {
     consola.error("generateAgentsFromUseCase: empty use case");
@@ -345,7 +355,9 @@ export async function generateAgentsFromUseCase(
 
   // 1) Inventory: servers and their tools (read-only)
   consola.start("Discovering MCP server tools (read-only)...");
-  const toolInventory = await discoverServerTools(app);
+  const toolInventory = await discoverServerTools(app, {
+    forceRefresh: opts?.forceRefresh,
+  });
   consola.success(
     "Discovered servers: " + [...toolInventory.keys()].join(", ")
   );
@@ -404,7 +416,7 @@ export async function generateAgentsFromUseCase(
   // 3) Call LLM
   let jsonText = "";
   try {
-    const { client, model } = makeOpenAI(app, undefined);
+    const { client, model } = makeLLMClient(app, undefined);
     // Some models only support default temperature; omit it entirely to avoid 400 errors.
     const payload: any = {
       model,
@@ -0,0 +1,91 @@
+import type { RunBudgets } from "../types.js";
+import type { CLIOptions } from "./config.js";
+
+export const DEFAULT_MAX_STEPS = 32;
+export const DEFAULT_MAX_DEPTH = 5;
+
+/**
+ * Process exit status used when a run stopped because a budget ran out.
+ */
+export const EXIT_BUDGET_EXHAUSTED = 3;
+
+/**
+ * Run-wide budget state shared by the whole delegation tree.
+ * Wall-clock and token budgets cover the entire run; step and depth budgets are
+ * resolved per agent invocation (see resolveStepBudgets).
+ */
+export type RunBudget = {
+  maxSeconds?: number;
+  maxTokens?: number;
+  startedAt: number;
+  tokensUsed: number;
+  /**
+   * Aborts once the wall-clock budget runs out. Model and tool calls take it as their
+   * signal, so one slow call cannot run past the budget.
+   */
+  deadline?: AbortSignal;
+  /**
+   * Set to a human-readable reason once any budget has run out.
+   */
+  exhausted?: string;
+};
+
+/**
+ * Budgets given on the command line (--max-steps, --max-depth, --max-seconds, --max-tokens).
+ */
+export function budgetsFromOptions(opts: CLIOptions): RunBudgets {
+  return {
+    max_steps: opts.maxSteps,
+    max_depth: opts.maxDepth,
+    max_seconds: opts.maxSeconds,
+    max_tokens: opts.maxTokens,
+  };
+}
+
+export function createRunBudget(
+  ...sources: Array<RunBudgets | undefined>
+): RunBudget {
+  const pick = <K extends keyof RunBudgets>(k: K) =>
+    sources.find((s) => s?.[k] !== undefined)?.[k];
+  const maxSeconds = pick("max_seconds");
+  return {
+    maxSeconds,
+    maxTokens: pick("max_tokens"),
+    startedAt: Date.now(),
+    tokensUsed: 0,
+    deadline:
+      maxSeconds !== undefined
+        ? AbortSignal.timeout(maxSeconds * 1000)
+        : undefined,
+  };
+}
+
+/**
+ * Step and depth limits for one invocation. Earlier sources win
+ * (pass CLI flags first, then the agent's budgets, then the global config).
+ */
+export function resolveStepBudgets(...sources: Array<RunBudgets | undefined>): {
+  maxSteps: number;
+  maxDepth: number;
+} {
+  const pick = <K extends keyof RunBudgets>(k: K) =>
+    sources.find((s) => s?.[k] !== undefined)?.[k];
+  return {
+    maxSteps: pick("max_steps") ?? DEFAULT_MAX_STEPS,
+    maxDepth: pick("max_depth") ?? DEFAULT_MAX_DEPTH,
+  };
+}
+
+/**
+ * Check run-wide budgets. Marks the run as exhausted and returns the reason when one ran out.
+ */
+export function checkRunBudget(run: RunBudget): string | undefined {
+  if (run.exhausted) return run.exhausted;
+  const elapsed = (Date.now() - run.startedAt) / 1000;
+  if (run.maxSeconds !== undefined && elapsed >= run.maxSeconds) {
+    run.exhausted = `wall-clock budget of ${run.maxSeconds}s reached`;
+  } else if (run.maxTokens !== undefined && run.tokensUsed >= run.maxTokens) {
+    run.exhausted = `token budget of ${run.maxTokens} reached (${run.tokensUsed} used)`;
+  }
+  return run.exhausted;
+}
@@ -0,0 +1,65 @@
+import { withSpinnerPaused } from "./progress.js";
+
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `limit` tasks at a time; extra tasks queue in FIFO order.
+ */
+export function createLimiter(limit: number): Limiter {
+  const max = Math.max(1, Math.floor(limit) || 1);
+  let active = 0;
+  const queue: Array<() => void> = [];
+  // A finished task hands its slot straight to the next waiter, so late arrivals cannot take it
+  const next = () => {
+    const waiter = queue.shift();
+    if (waiter) waiter();
+    else active--;
+  };
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (active >= max) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      next();
+    }
+  };
+}
+
+/**
+ * Map items with at most `limit` concurrent calls. Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const limiter = createLimiter(limit);
+  return Promise.all(items.map((item, i) => limiter(() => fn(item, i))));
+}
+
+// Confirmation prompts (tool calls, sampling) share the terminal; only one may be open at a
+// time, and tool spinners are hidden while it is
+const confirmations = createLimiter(1);
+export const confirmationLock: Limiter = (fn) =>
+  confirmations(() => withSpinnerPaused(fn));
+
+// Per-server limiters are shared by the whole process, so nested call_agent runs
+// hitting the same backend (e.g. Gmail) count against one limit.
+const serverLimiters = new Map<string, Limiter>();
+
+/**
+ * Limiter for in-flight tool calls to one MCP server. Unlimited when no limit is configured.
+ */
+export function serverLimiter(serverName: string, limit?: number): Limiter {
+  if (!limit || limit <= 0) return (fn) => fn();
+  let limiter = serverLimiters.get(serverName);
+  if (!limiter) {
+    limiter = createLimiter(limit);
+    serverLimiters.set(serverName, limiter);
+  }
+  return limiter;
+}
@@ -1,8 +1,11 @@
 import chalk from "chalk";
 import { readFileSync, existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
 import { parse as parseCommentJson } from "comment-json";
 
 import type { AppConfig, ServerConfig } from "../types.js";
+import { qualifiedToolName } from "./util.js";
+import { interpolateConfig, loadEnvFile } from "./secrets.js";
 
 export type CLIOptions = {
   listTools?: boolean;
@@ -14,6 +17,14 @@ export type CLIOptions = {
   intermediates?: boolean;
   showMemories?: boolean;
   model?: string;
+  stream?: boolean; // Print tokens as they arrive (top-level only)
+  output?: "text" | "json" | "jsonl"; // json/jsonl: only the structured run record goes to stdout
+
+  // Budgets (override agent and config budgets)
+  maxSteps?: number;
+  maxDepth?: number;
+  maxSeconds?: number;
+  maxTokens?: number;
 
   // Agents
   listAgents?: boolean;
@@ -44,12 +55,26 @@ export function loadConfig(): AppConfig & {
   // supports comments
   const conf = parseCommentJson(raw, undefined, true) as any;
 
+  // ${env:NAME} and ${file:path} references; the optional env_file is loaded first so they can use it
+  const baseDir = dirname(resolve(chosen));
+  if (typeof conf?.env_file === "string") loadEnvFile(conf.env_file, baseDir);
+  interpolateConfig(conf, baseDir);
+
+  // Server-qualified, so a tool needing confirmation on one server does not affect
+  // a same-named tool on another
   const tools_requires_confirmation: string[] = [];
   const servers = conf?.mcpServers ?? {};
   for (const k of Object.keys(servers)) {
     const sc: ServerConfig = servers[k];
     if (Array.isArray(sc?.requires_confirmation)) {
-      tools_requires_confirmation.push(...sc.requires_confirmation);
+      for (const tool of sc.requires_confirmation) {
+        // Entries may already be qualified ("gmail__send_email")
+        tools_requires_confirmation.push(
+          tool.startsWith(qualifiedToolName(k, ""))
+            ? tool
+            : qualifiedToolName(k, tool)
+        );
+      }
     }
   }
 
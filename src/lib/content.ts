@@ -0,0 +1,124 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { fileTypeFromBuffer } from "file-type";
+import { ALT_CONFIG_DIR } from "./config.js";
+import { normalizeMcpContentToString } from "./util.js";
+
+/**
+ * Non-text MCP tool content (images, audio, binary resources).
+ *
+ * Images go to vision-capable models as image parts; other binary content is written to
+ * the run's artifacts directory and replaced by a one-line reference in the tool result.
+ */
+
+export const DEFAULT_ARTIFACTS_DIR = `${ALT_CONFIG_DIR}/artifacts`;
+
+/**
+ * Files written during one run, in a directory created on the first save.
+ */
+export type ArtifactStore = {
+  dir: string;
+  /**
+   * Write `data` and return its path. The extension is sniffed from the bytes,
+   * falling back to the declared mime type.
+   */
+  save: (
+    data: Buffer,
+    hint: { label: string; mimeType?: string }
+  ) => Promise<{ path: string; mimeType: string }>;
+};
+
+export function createArtifactStore(
+  root: string = DEFAULT_ARTIFACTS_DIR
+): ArtifactStore {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const dir = `${root}/${stamp}-${randomUUID().slice(0, 4)}`;
+  let count = 0;
+  return {
+    dir,
+    save: async (data, hint) => {
+      const sniffed = await fileTypeFromBuffer(data);
+      const mimeType =
+        sniffed?.mime ?? hint.mimeType ?? "application/octet-stream";
+      const ext = sniffed?.ext ?? extensionFromMime(hint.mimeType) ?? "bin";
+      await mkdir(dir, { recursive: true });
+      const path = `${dir}/${++count}-${hint.label.replace(/[^a-zA-Z0-9_-]/g, "_")}.${ext}`;
+      await writeFile(path, data);
+      return { path, mimeType };
+    },
+  };
+}
+
+// "text/csv" -> "csv", "image/svg+xml" -> "svg"
+function extensionFromMime(mimeType?: string) {
+  const sub = mimeType?.split(";")[0].split("/")[1];
+  return sub?.split("+")[0].replace(/^x-/, "") || undefined;
+}
+
+/**
+ * Image part for a chat completions user message.
+ */
+export type ImagePart = {
+  type: "image_url";
+  image_url: { url: string };
+};
+
+// Base64 payload of a binary content item, if it has one
+function binaryContent(
+  item: any
+): { kind: string; data: string; mimeType?: string } | undefined {
+  if (
+    (item?.type === "image" || item?.type === "audio") &&
+    typeof item.data === "string"
+  ) {
+    return { kind: item.type, data: item.data, mimeType: item.mimeType };
+  }
+  if (item?.type === "resource" && typeof item.resource?.blob === "string") {
+    return {
+      kind: `resource ${item.resource.uri}`,
+      data: item.resource.blob,
+      mimeType: item.resource.mimeType,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Render a tool result for the model. With `vision`, images are returned as parts to send
+ * alongside the tool messages; binary content that is not sent is saved to `artifacts`.
+ */
+export async function renderToolResult(
+  result: any,
+  opts: { label: string; vision?: boolean; artifacts: ArtifactStore }
+): Promise<{ text: string; images: ImagePart[] }> {
+  const items = Array.isArray(result?.content) ? result.content : undefined;
+  if (!items?.some((it: any) => binaryContent(it))) {
+    return { text: normalizeMcpContentToString(result), images: [] };
+  }
+  const parts: string[] = [];
+  const images: ImagePart[] = [];
+  for (const item of items) {
+    const binary = binaryContent(item);
+    if (!binary) {
+      parts.push(normalizeMcpContentToString([item]));
+    } else if (binary.kind === "image" && opts.vision) {
+      images.push({
+        type: "image_url",
+        image_url: {
+          url: `data:${binary.mimeType ?? "image/png"};base64,${binary.data}`,
+        },
+      });
+      parts.push(`[image ${images.length} of ${opts.label} attached below]`);
+    } else {
+      const data = Buffer.from(binary.data, "base64");
+      const saved = await opts.artifacts.save(data, {
+        label: opts.label,
+        mimeType: binary.mimeType,
+      });
+      parts.push(
+        `[${binary.kind} saved to ${saved.path} (${saved.mimeType}, ${data.length} bytes)]`
+      );
+    }
+  }
+  return { text: parts.join("\n"), images };
+}
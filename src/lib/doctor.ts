@@ -0,0 +1,249 @@
+import chalk from "chalk";
+import { accessSync, constants } from "node:fs";
+import { delimiter, isAbsolute, join, resolve } from "node:path";
+import type { AppConfig, ServerConfig, ToolRule } from "../types.js";
+import { loadAgents } from "./agents.js";
+import { connectServer, serverTransport, type ConnectedServer } from "./mcp.js";
+import { maskSecrets } from "./secrets.js";
+import { qualifiedToolName } from "./util.js";
+
+/**
+ * `llm doctor`: health checks for every server in mcpServers and for the tool names
+ * that server and agent configs refer to.
+ */
+export type DoctorCheck = {
+  server: string;
+  check: string;
+  status: "pass" | "fail" | "skip";
+  detail: string;
+};
+
+// A server that does not answer the handshake or listTools within this time is reported as failed
+const STEP_TIMEOUT_MS = 15000;
+
+// Path of an executable command (looked up on PATH when it has no directory part)
+function resolveCommand(command: string, env: Record<string, string>) {
+  const executable = (p: string) => {
+    try {
+      accessSync(p, constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  if (isAbsolute(command) || /[\\/]/.test(command)) {
+    const p = resolve(command);
+    return executable(p) ? p : undefined;
+  }
+  const exts =
+    process.platform === "win32"
+      ? ["", ...(env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")]
+      : [""];
+  for (const dir of (env.PATH ?? "").split(delimiter).filter(Boolean)) {
+    for (const ext of exts) {
+      const p = join(dir, command + ext);
+      if (executable(p)) return p;
+    }
+  }
+  return undefined;
+}
+
+// Fails after STEP_TIMEOUT_MS, so a server that stops answering cannot block the report
+async function withTimeout<T>(step: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`no response after ${STEP_TIMEOUT_MS} ms`)),
+      STEP_TIMEOUT_MS
+    );
+  });
+  try {
+    return await Promise.race([step, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function connectWithTimeout(
+  app: AppConfig,
+  name: string,
+  conf: ServerConfig
+) {
+  const connecting = connectServer(name, conf, app);
+  try {
+    return await withTimeout(connecting);
+  } catch (err) {
+    // Close the connection if it completes after we gave up on it
+    connecting.then((s) => s.close()).catch(() => {});
+    throw err;
+  }
+}
+
+// Tools named by rules ("*" covers every tool)
+const ruleTools = (rules?: ToolRule[]) =>
+  (rules ?? []).map((r) => r.tool).filter((t) => t !== "*");
+
+// Tool-name lists that refer to one server: its own config plus every agent policy for it
+function toolReferences(app: AppConfig, name: string, conf: ServerConfig) {
+  const refs: Array<{ source: string; names: string[] }> = [
+    { source: "include_tools", names: conf.include_tools ?? [] },
+    { source: "exclude_tools", names: conf.exclude_tools ?? [] },
+    {
+      source: "requires_confirmation",
+      names: conf.requires_confirmation ?? [],
+    },
+    { source: "tool_rules", names: ruleTools(conf.tool_rules) },
+  ];
+  const { agents } = loadAgents(app);
+  for (const [agentName, agent] of Object.entries(agents)) {
+    const policy = agent.servers?.[name];
+    if (!policy) continue;
+    refs.push(
+      {
+        source: `agent ${agentName} include_tools`,
+        names: policy.include_tools ?? [],
+      },
+      {
+        source: `agent ${agentName} exclude_tools`,
+        names: policy.exclude_tools ?? [],
+      },
+      {
+        source: `agent ${agentName} tool_rules`,
+        names: ruleTools(policy.tool_rules),
+      }
+    );
+  }
+  return refs.filter((r) => r.names.length);
+}
+
+async function checkServer(
+  app: AppConfig,
+  name: string,
+  conf: ServerConfig
+): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const add = (check: string, status: DoctorCheck["status"], detail: string) =>
+    checks.push({ server: name, check, status, detail });
+  const refs = toolReferences(app, name, conf);
+  const skipRefs = (why: string) => {
+    for (const r of refs) add(r.source, "skip", why);
+  };
+
+  if (conf.enabled === false) {
+    add("enabled", "skip", "disabled in config");
+    return checks;
+  }
+  const kind = serverTransport(conf);
+  if (!kind) {
+    add("config", "fail", 'needs http.url, sse.url or "command"');
+    skipRefs("server not checked");
+    return checks;
+  }
+  if (kind === "stdio") {
+    const path = resolveCommand(conf.command!, {
+      ...(process.env as Record<string, string>),
+      ...(conf.env ?? {}),
+    });
+    if (!path) {
+      add("command", "fail", `'${conf.command}' not found or not executable`);
+      skipRefs("server not checked");
+      return checks;
+    }
+    add("command", "pass", path);
+  } else {
+    const url = kind === "http" ? conf.http!.url : conf.sse!.url;
+    try {
+      new URL(url);
+      add("url", "pass", `${url} (${kind})`);
+    } catch {
+      add("url", "fail", `invalid URL '${url}'`);
+      skipRefs("server not checked");
+      return checks;
+    }
+  }
+
+  let s: ConnectedServer | undefined;
+  try {
+    const started = Date.now();
+    s = await connectWithTimeout(app, name, conf);
+    add("handshake", "pass", `${Date.now() - started} ms`);
+    const tools: any[] = (await withTimeout(s.client.listTools()))?.tools ?? [];
+    // Zero tools is not an error by itself (e.g. servers that only offer resources)
+    add(
+      "tools",
+      "pass",
+      `${tools.length} ${tools.length === 1 ? "tool" : "tools"}`
+    );
+    const known = new Set(
+      tools.flatMap((t) => [t.name, qualifiedToolName(name, t.name)])
+    );
+    for (const r of refs) {
+      const unknown = r.names.filter((n) => !known.has(n));
+      if (unknown.length) {
+        add(r.source, "fail", `unknown tools: ${unknown.join(", ")}`);
+      } else {
+        add(r.source, "pass", `${r.names.length} names`);
+      }
+    }
+  } catch (err: any) {
+    add(s ? "tools" : "handshake", "fail", err?.message ?? String(err));
+    skipRefs("tools not listed");
+  } finally {
+    await s?.close();
+  }
+  return checks;
+}
+
+/**
+ * Check every configured server (sequentially, so spawned processes do not compete)
+ * plus agents that refer to servers missing from mcpServers.
+ */
+export async function runDoctor(app: AppConfig): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const servers = app.mcpServers ?? {};
+  for (const [name, conf] of Object.entries(servers)) {
+    checks.push(...(await checkServer(app, name, conf)));
+  }
+  const { agents } = loadAgents(app);
+  for (const [agentName, agent] of Object.entries(agents)) {
+    for (const server of Object.keys(agent.servers ?? {})) {
+      if (servers[server]) continue;
+      checks.push({
+        server,
+        check: `agent ${agentName}`,
+        status: "fail",
+        detail: "server not in mcpServers",
+      });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Aligned pass/fail table with a totals line.
+ */
+export function formatDoctorTable(checks: DoctorCheck[]): string {
+  const header = { server: "SERVER", check: "CHECK", status: "STATUS" };
+  const width = (key: "server" | "check") =>
+    Math.max(header[key].length, ...checks.map((c) => c[key].length));
+  const [ws, wc] = [width("server"), width("check")];
+  const color = { pass: chalk.green, fail: chalk.red, skip: chalk.gray };
+  const lines = [
+    chalk.bold(
+      `${header.server.padEnd(ws)}  ${header.check.padEnd(wc)}  ${header.status}  DETAIL`
+    ),
+  ];
+  for (const c of checks) {
+    const status = color[c.status](c.status.toUpperCase().padEnd(6));
+    lines.push(
+      `${c.server.padEnd(ws)}  ${c.check.padEnd(wc)}  ${status}  ${maskSecrets(c.detail)}`
+    );
+  }
+  const count = (s: DoctorCheck["status"]) =>
+    checks.filter((c) => c.status === s).length;
+  lines.push(
+    "",
+    `${count("pass")} passed, ${count("fail")} failed, ${count("skip")} skipped`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,70 @@
+import consola from "consola";
+
+/**
+ * Ctrl-C handling. The first SIGINT aborts the in-flight tool calls (the MCP SDK sends
+ * notifications/cancelled and the model is told the call was cancelled). A SIGINT with no
+ * calls in flight, or a second one, closes every registered connection and exits.
+ */
+
+export const EXIT_INTERRUPTED = 130;
+
+// How long shutdown waits for servers to close before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 3000;
+
+const inFlight = new Set<AbortController>();
+const closers = new Set<() => Promise<void>>();
+let cancelled = false;
+let shuttingDown = false;
+
+/**
+ * Signal for one cancellable call; call `done` when the call settles.
+ */
+export function trackCall(): { signal: AbortSignal; done: () => void } {
+  const controller = new AbortController();
+  inFlight.add(controller);
+  return {
+    signal: controller.signal,
+    done: () => {
+      inFlight.delete(controller);
+      if (!inFlight.size) cancelled = false;
+    },
+  };
+}
+
+/**
+ * Register connections to close on shutdown; returns a function that unregisters them.
+ */
+export function onShutdown(close: () => Promise<void>): () => void {
+  closers.add(close);
+  return () => closers.delete(close);
+}
+
+async function shutdown() {
+  if (shuttingDown) process.exit(EXIT_INTERRUPTED);
+  shuttingDown = true;
+  consola.warn("Interrupted; closing MCP servers (Ctrl-C again to force)");
+  const timer = new Promise((resolve) =>
+    setTimeout(resolve, SHUTDOWN_TIMEOUT_MS)
+  );
+  await Promise.race([
+    Promise.allSettled([...closers].map((close) => close())),
+    timer,
+  ]);
+  process.exit(EXIT_INTERRUPTED);
+}
+
+export function installInterruptHandler() {
+  process.on("SIGINT", () => {
+    if (!inFlight.size || cancelled) {
+      void shutdown();
+      return;
+    }
+    cancelled = true;
+    consola.warn(
+      `Cancelling ${inFlight.size} tool call(s); press Ctrl-C again to quit`
+    );
+    for (const controller of inFlight) {
+      controller.abort(new Error("Cancelled by the user (Ctrl-C)"));
+    }
+  });
+}
@@ -4,20 +4,76 @@ import prompts from "prompts";
 import { OpenAI } from "openai";
 import { promptTemplates } from "../prompts.js";
 import type { CLIOptions } from "./config.js";
-import { setupTools } from "./mcp.js";
-import { normalizeMcpContentToString, safeParseJSON } from "./util.js";
+import { createServerPool, setupTools, type ServerPool } from "./mcp.js";
+import { getProvider, withSupportedParams } from "./providers.js";
+import {
+  activeRecording,
+  createReplayOpenAI,
+  recordOpenAI,
+} from "./recording.js";
+import { safeParseJSON } from "./util.js";
+import { trackCall } from "./interrupt.js";
+import { printAboveSpinner, startToolSpinner } from "./progress.js";
+import {
+  createArtifactStore,
+  renderToolResult,
+  type ArtifactStore,
+  type ImagePart,
+} from "./content.js";
 import { loadAgents } from "./agents.js";
-import type { AgentConfig } from "../types.js";
+import type {
+  AgentConfig,
+  AppConfig,
+  ModelPrice,
+  RunBudgets,
+  ServerConfig,
+} from "../types.js";
+import { listServerPrompts } from "./server-prompts.js";
+import { addUsageChild, recordUsage, type UsageNode } from "./usage.js";
+import {
+  createChildTrace,
+  type AgentTrace,
+  type TraceSink,
+  type TraceToolCall,
+  type TraceTurn,
+} from "./trace.js";
+import {
+  mapWithConcurrency,
+  serverLimiter,
+  confirmationLock,
+} from "./concurrency.js";
+import {
+  budgetsFromOptions,
+  checkRunBudget,
+  createRunBudget,
+  resolveStepBudgets,
+  type RunBudget,
+} from "./budget.js";
+import {
+  callPolicy,
+  createCircuitBreakers,
+  isTimeoutError,
+  toolErrorResult,
+  withRetries,
+  type CircuitBreakers,
+} from "./resilience.js";
+import { describeRule, evaluateToolRules } from "./tool-rules.js";
+import { useSamplingContext } from "./sampling.js";
+import { canPromptOnStdin } from "./stdin.js";
+
+const DEFAULT_TOOL_CONCURRENCY = 4;
 
 // -------------------------
 // Prompts listing
 // -------------------------
-export async function listPrompts() {
+export async function listPrompts(app?: AppConfig) {
   const rows = Object.entries(promptTemplates).map(([name, tpl]) => {
     const args = Array.from(tpl.matchAll(/\{(\w+)\}/g)).map((m) => m[1]);
     return { name, args, tpl };
   });
-  if (!rows.length) {
+  // Prompts published by MCP servers, namespaced as <server>/<prompt>
+  const serverPrompts = app ? await listServerPrompts(app) : [];
+  if (!rows.length && !serverPrompts.length) {
     consola.info("No prompts found");
     return;
   }
@@ -33,6 +89,23 @@ export async function listPrompts() {
       .join("\n");
     console.log(tplWrapped + "\n");
   }
+  if (serverPrompts.length) {
+    console.log(chalk.bold("Server Prompts\n"));
+  }
+  for (const p of serverPrompts) {
+    const args = p.arguments.map((a) => (a.required ? a.name : `[${a.name}]`));
+    console.log(
+      `${chalk.cyan(`${p.server}/${p.name}`)}  args: ${chalk.gray(args.join(", ") || "-")}`
+    );
+    if (p.description) {
+      console.log(
+        wrap(p.description, w - 2)
+          .split("\n")
+          .map((l) => "  " + l)
+          .join("\n") + "\n"
+      );
+    }
+  }
 }
 
 function wrap(s: string, width: number) {
@@ -68,67 +141,239 @@ function normalizeAssistantContent(content: any): string {
   return "";
 }
 
+/**
+ * State carried across top-level turns of one conversation.
+ * - messages: transcript, mutated in place (persisted by threads/REPL)
+ * - tools: pre-connected tools to reuse instead of connecting per call; the owner closes them
+ * - pool: servers kept connected for call_agent runs across turns; the owner closes it
+ */
+export type ChatSession = {
+  messages: any[];
+  tools?: Awaited<ReturnType<typeof setupTools>>;
+  pool?: ServerPool;
+};
+
+// Run a streaming chat completion, forwarding text deltas to onText as they arrive.
+// Returns a response shaped like a non-streamed completion; tool_calls are rebuilt from
+// their indexed deltas (id/name arrive once, arguments arrive in fragments).
+async function createStreamingCompletion(
+  client: OpenAI,
+  payload: any,
+  onText?: (text: string) => void,
+  signal?: AbortSignal
+) {
+  const stream: any = await client.chat.completions.create(
+    {
+      ...payload,
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+    { signal }
+  );
+  let content = "";
+  let usage: any;
+  let finishReason: string | undefined;
+  const toolCalls: any[] = [];
+  for await (const chunk of stream) {
+    // With include_usage, the final chunk carries usage and no choices
+    if (chunk?.usage) usage = chunk.usage;
+    const choice = chunk?.choices?.[0];
+    if (!choice) continue;
+    const delta = choice.delta ?? {};
+    if (typeof delta.content === "string" && delta.content) {
+      content += delta.content;
+      onText?.(delta.content);
+    }
+    for (const tc of delta.tool_calls ?? []) {
+      const slot = (toolCalls[tc.index ?? 0] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (tc.id) slot.id = tc.id;
+      if (tc.function?.name) slot.function.name += tc.function.name;
+      if (tc.function?.arguments)
+        slot.function.arguments += tc.function.arguments;
+    }
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  }
+  const tool_calls = toolCalls.filter(Boolean);
+  return {
+    choices: [
+      {
+        message: {
+          role: "assistant" as const,
+          content,
+          tool_calls: tool_calls.length ? tool_calls : undefined,
+        },
+        finish_reason: finishReason,
+      },
+    ],
+    usage,
+  };
+}
+
+function parseToolArgs(rawArgs: any) {
+  return typeof rawArgs === "string" ? safeParseJSON(rawArgs) : (rawArgs ?? {});
+}
+
+// Print streamed tokens for one model turn, prefixed with the scope label once per turn.
+// `finalOnly` (--no-intermediates) holds the tokens back until the turn turns out to be the
+// final answer; `end` reports whether anything was printed.
+function makeStreamPrinter(
+  scopeLabel: string,
+  textOnly?: boolean,
+  finalOnly?: boolean
+) {
+  let started = false;
+  let held = "";
+  const write = (text: string) => {
+    if (!started) {
+      started = true;
+      if (!textOnly) process.stdout.write(`\n${scopeLabel} `);
+    }
+    process.stdout.write(text);
+  };
+  return {
+    onText: (text: string) => {
+      if (finalOnly) held += text;
+      else write(text);
+    },
+    end: (isFinal: boolean) => {
+      if (finalOnly && isFinal && held) write(held);
+      if (started) process.stdout.write("\n");
+      return started;
+    },
+  };
+}
+
 // -------------------------
-// OpenAI client
+// LLM client (provider adapter selected by llm.provider)
 // -------------------------
-export function makeOpenAI(
+export function makeLLMClient(
   app: {
     llm: {
+      provider?: string;
       api_key?: string;
       model?: string;
       base_url?: string | null;
       temperature?: number;
+      vision?: boolean;
     };
   },
   overrideModel?: string
 ) {
-  const apiKey =
-    app.llm.api_key || process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "Missing OpenAI API key. Set llm.api_key in config or OPENAI_API_KEY env."
-    );
-  }
   const model = overrideModel || app.llm.model || "gpt-4o-mini";
-  const baseURL =
-    app.llm.base_url ||
-    process.env.OPENAI_BASE_URL ||
-    process.env.LLM_BASE_URL ||
-    undefined;
-
-  const client = new OpenAI({
-    apiKey,
-    baseURL,
-  });
+  const provider = getProvider(app.llm.provider);
+  const recording = activeRecording();
+  // Recordings hold the requests as sent, after unsupported parameters were dropped
+  const raw =
+    recording?.mode === "replay"
+      ? (createReplayOpenAI() as OpenAI)
+      : recording?.mode === "record"
+        ? recordOpenAI(provider.createClient(app.llm))
+        : provider.createClient(app.llm);
 
-  return { client, model };
+  const vision = app.llm.vision ?? provider.supportsImages?.(model) ?? false;
+  return { client: withSupportedParams(provider, raw), model, vision };
 }
 
+/**
+ * Bookkeeping for one invocation, threaded through call_agent recursion.
+ * - usage/trace: this invocation's nodes (nested runs get child nodes)
+ * - budget/sink: shared by the whole run (budget is created at top-level if omitted)
+ */
+export type RunContext = {
+  usage?: UsageNode;
+  budget?: RunBudget;
+  trace?: AgentTrace;
+  sink?: TraceSink;
+  /**
+   * MCP connections shared by the whole delegation tree; created by the top-level run when unset.
+   */
+  pool?: ServerPool;
+  /**
+   * Tool call failures per server, shared like the pool so a disabled server stays disabled.
+   */
+  circuits?: CircuitBreakers;
+  /**
+   * Where binary tool output of the whole run is saved.
+   */
+  artifacts?: ArtifactStore;
+};
+
+type ChatAppConfig = {
+  systemPrompt?: string;
+  llm: { temperature?: number };
+  tools_requires_confirmation?: string[];
+  mcpServers: Record<string, ServerConfig>;
+  pricing?: Record<string, ModelPrice>;
+  tool_concurrency?: number;
+  budgets?: RunBudgets;
+  artifacts_dir?: string;
+};
+
 // -------------------------
 // Chat with tool chaining
 // -------------------------
 export async function chatWithOpenAI(
-  app: {
-    systemPrompt?: string;
-    llm: { temperature?: number };
-    tools_requires_confirmation?: string[];
-    mcpServers: Record<string, unknown>;
-  },
+  app: ChatAppConfig,
+  query: string,
+  opts: CLIOptions,
+  depth = 0,
+  session?: ChatSession,
+  run: RunContext = {}
+): Promise<string> {
+  const { trace, sink } = run;
+  if (!trace) return runChat(app, query, opts, depth, session, run);
+
+  trace.agent = opts.agent || "orchestrator";
+  sink?.emit?.({
+    event: "agent_start",
+    id: trace.id,
+    agent: trace.agent,
+    depth,
+    query,
+  });
+  const started = Date.now();
+  const answer = await runChat(app, query, opts, depth, session, run);
+  trace.answer = answer;
+  trace.duration_ms = Date.now() - started;
+  sink?.emit?.({
+    event: "agent_end",
+    id: trace.id,
+    agent: trace.agent,
+    answer,
+    duration_ms: trace.duration_ms,
+  });
+  return answer;
+}
+
+async function runChat(
+  app: ChatAppConfig,
   query: string,
   opts: CLIOptions,
-  depth = 0
+  depth: number,
+  session: ChatSession | undefined,
+  run: RunContext
 ): Promise<string> {
+  const { usage, trace, sink } = run;
   const isTopLevel = depth === 0;
+  // --output json/jsonl: stdout is reserved for the structured record
+  const machineOutput = opts.output === "json" || opts.output === "jsonl";
+  // Streamed tokens are only printed at top-level; nested call_agent runs stream silently
+  const streamToStdout = !!opts.stream && isTopLevel && !machineOutput;
   // Support both our intended flag 'noIntermediates' and Commander negated form '--no-intermediates' which sets 'intermediates' to false
-  const quiet = !opts.intermediates;
+  const quiet = !opts.intermediates || machineOutput;
   if (!quiet) {
     consola.info("input:", query);
   }
-  const { client, model } = makeOpenAI(app as any, opts.model);
+  const { client, model, vision } = makeLLMClient(app as any, opts.model);
 
   // Determine agent scope (tools whitelist per server and allowed sub-agents)
   const { agents } = loadAgents(app as any);
   const currentAgentName = opts.agent || undefined;
+  if (usage) usage.agent = currentAgentName ?? "orchestrator";
   const currentAgent: AgentConfig | undefined = currentAgentName
     ? agents[currentAgentName]
     : undefined;
@@ -140,6 +385,17 @@ export async function chatWithOpenAI(
     }
   }
 
+  // Budgets: CLI flags override the agent's budgets, which override the global config
+  const cliBudgets = budgetsFromOptions(opts);
+  const budget =
+    run.budget ??
+    createRunBudget(cliBudgets, currentAgent?.budgets, app.budgets);
+  const { maxSteps, maxDepth } = resolveStepBudgets(
+    cliBudgets,
+    currentAgent?.budgets,
+    app.budgets
+  );
+
   // Compute system prompt: prefer agent-specific when available, else app/system default
   const system =
     currentAgent &&
@@ -174,14 +430,22 @@ export async function chatWithOpenAI(
 
   // system prompt computed above
 
+  // One pool per run: nested call_agent scopes reuse the servers the run already connected
+  const ownsPool = !run.pool && !session?.pool;
+  const pool = run.pool ?? session?.pool ?? createServerPool();
+  const circuits = run.circuits ?? createCircuitBreakers();
+  const artifacts = run.artifacts ?? createArtifactStore(app.artifacts_dir);
+
   // Prepare tools (connect MCP servers, map tools) with optional agent scope
-  const { connected, registry, openAITools } = await setupTools(
-    app as any,
-    { noTools: opts.noTools },
-    currentAgent
-      ? { agentName: currentAgentName, agent: currentAgent }
-      : undefined
-  );
+  const { connected, registry, openAITools, refreshed, stopWatching } =
+    session?.tools ??
+    (await setupTools(
+      app as any,
+      { noTools: opts.noTools, forceRefresh: opts.forceRefresh, pool },
+      currentAgent
+        ? { agentName: currentAgentName, agent: currentAgent }
+        : undefined
+    ));
 
   // Inject a virtual "call_agent" tool that can delegate to a named agent
   // Schema: { query: string; target_agent?: string }
@@ -223,8 +487,13 @@ export async function chatWithOpenAI(
     },
   };
 
-  // Combine MCP-discovered tools with the virtual tool (unless tools are disabled)
-  const allTools = opts.noTools ? [] : [...openAITools, virtualCallAgentTool];
+  // Combine MCP-discovered tools with the virtual tool (unless tools are disabled).
+  // Read per turn: servers' list_changed notifications update openAITools in place, and a
+  // refresh started by the previous tool call is awaited first.
+  const allTools = async () => {
+    await refreshed();
+    return opts.noTools ? [] : [...openAITools, virtualCallAgentTool];
+  };
 
   // Augment the system prompt with agent context so the model knows what's available
   const agentContext = [
@@ -255,26 +524,109 @@ export async function chatWithOpenAI(
   });
   const dateBanner = `Thread start date: ${dateFormatter.format(now)} (${timeZone})`;
 
-  const messages: any[] = [
-    { role: "system", content: dateBanner },
-    { role: "system", content: systemWithAgents },
-    { role: "user", content: query },
-  ];
+  // When resuming a thread, keep its original banner/system prompt and append the new user turn.
+  // The thread's array is mutated in place so the caller can persist the full transcript afterwards.
+  const messages: any[] = session?.messages ?? [];
+  if (!messages.length) {
+    messages.push(
+      { role: "system", content: dateBanner },
+      { role: "system", content: systemWithAgents }
+    );
+  }
+  messages.push({ role: "user", content: query });
   // Track the last assistant message received from the model (for proper returns after tool runs)
   let lastAssistantText = "";
+  const temperature = app.llm.temperature ?? 0;
+
+  // One model call: streams to stdout at top-level when requested and records usage against the budget.
+  // It is aborted when the wall-clock budget runs out, except for the summary after exhaustion.
+  const complete = async (payload: any, summary = false) => {
+    const printer = makeStreamPrinter(scopeLabel, opts.textOnly, quiet);
+    const started = Date.now();
+    const signal = summary ? undefined : budget.deadline;
+    const response: any = opts.stream
+      ? await createStreamingCompletion(
+          client,
+          payload,
+          streamToStdout ? printer.onText : undefined,
+          signal
+        )
+      : await client.chat.completions.create(payload, { signal });
+    const streamed = printer.end(
+      !response.choices?.[0]?.message?.tool_calls?.length
+    );
+    recordUsage(usage, response.usage, model, app.pricing);
+    budget.tokensUsed += response.usage?.total_tokens ?? 0;
+    if (trace) {
+      const choice = response.choices?.[0];
+      const turn: TraceTurn = {
+        step: trace.turns.length,
+        content: normalizeAssistantContent(choice?.message?.content),
+        tool_calls: (choice?.message?.tool_calls ?? []).map((tc: any) => ({
+          id: tc?.id,
+          name: tc?.function?.name,
+          arguments: parseToolArgs(tc?.function?.arguments),
+        })),
+        finish_reason: choice?.finish_reason,
+        usage: response.usage,
+        duration_ms: Date.now() - started,
+      };
+      trace.turns.push(turn);
+      sink?.emit?.({
+        event: "model_turn",
+        id: trace.id,
+        agent: trace.agent,
+        ...turn,
+      });
+    }
+    return { response, streamed };
+  };
+
+  // A budget ran out: give the model one final turn without tool use to summarize its progress
+  const summarizeOnBudget = async (reason: string): Promise<string> => {
+    if (!quiet) {
+      consola.warn(`${scopeLabel} ${reason}; asking the model to summarize`);
+    }
+    messages.push({
+      role: "system",
+      content: `Budget exhausted: ${reason}. Do not call any more tools. Summarize what has been done so far and give your best final answer now.`,
+    });
+    const payload: any = {
+      model,
+      messages,
+      temperature,
+      reasoning_effort: "low",
+    };
+    if (!opts.noTools) {
+      payload.tools = (await allTools()) as any;
+      payload.tool_choice = "none" as any;
+    }
+    try {
+      const { response } = await complete(payload, true);
+      const text = normalizeAssistantContent(
+        response.choices?.[0]?.message?.content
+      );
+      messages.push({ role: "assistant", content: text });
+      return text || lastAssistantText || "finished";
+    } catch (e: any) {
+      consola.error(e?.message ?? String(e));
+      return lastAssistantText || "finished";
+    }
+  };
 
   // Fast-path: if there are no tools at all, run a single-turn completion and return.
   // Fast-path: no tools available at all — print a single final once (regardless of intermediates setting)
-  if (allTools.length === 0) {
+  if (opts.noTools) {
     const singlePayload: any = {
       model,
       messages,
       reasoning_effort: "low",
-      temperature: app.llm.temperature ?? 0,
+      temperature,
     };
     let response;
+    let streamed = false;
     try {
-      response = await client.chat.completions.create(singlePayload);
+      ({ response, streamed } = await complete(singlePayload));
     } catch (e: any) {
       const emsg =
         (e && typeof e === "object" && "message" in e
@@ -288,7 +640,8 @@ export async function chatWithOpenAI(
       (choice?.message
         ? normalizeAssistantContent(choice.message.content)
         : "") || "";
-    if (assistantText && isTopLevel && !quiet) {
+    messages.push({ role: "assistant", content: assistantText });
+    if (assistantText && isTopLevel && !quiet && !streamed) {
       const decorated = `${scopeLabel} ${assistantText}`;
       console.log(opts.textOnly ? decorated : "\n" + decorated + "\n");
     }
@@ -297,11 +650,29 @@ export async function chatWithOpenAI(
   }
 
   const requiresConfirmation = new Set(app.tools_requires_confirmation || []);
-  const temperature = app.llm.temperature ?? 0;
+  // Max concurrent tool calls per assistant turn: agent setting, then global config
+  const toolConcurrency =
+    currentAgent?.tool_concurrency ??
+    app.tool_concurrency ??
+    DEFAULT_TOOL_CONCURRENCY;
+
+  // Servers' sampling requests use this run's client, model, usage and budget
+  const stopSampling = isTopLevel
+    ? useSamplingContext({ client, model, usage, budget, pricing: app.pricing })
+    : () => {};
 
   try {
-    // Limit to avoid infinite loops in pathological cases
-    for (let step = 0; step < 32; step++) {
+    for (let step = 0; ; step++) {
+      // Budgets: run-wide wall-clock/tokens, and this invocation's step limit
+      const exhausted =
+        checkRunBudget(budget) ??
+        (step >= maxSteps ? `step budget of ${maxSteps} reached` : undefined);
+      if (exhausted) {
+        // Hitting the step limit at top-level ends the run, so it counts as run exhaustion
+        if (isTopLevel) budget.exhausted ??= exhausted;
+        return await summarizeOnBudget(exhausted);
+      }
+
       // Build payload conditionally: tool_choice is only valid if tools are present
       const payload: any = {
         model,
@@ -309,14 +680,20 @@ export async function chatWithOpenAI(
         temperature,
         reasoning_effort: "low",
       };
-      if (allTools.length) {
-        payload.tools = allTools as any;
+      if (!opts.noTools) {
+        payload.tools = (await allTools()) as any;
         payload.tool_choice = "auto" as any;
       }
       let response;
+      let streamed = false;
       try {
-        response = await client.chat.completions.create(payload);
+        ({ response, streamed } = await complete(payload));
       } catch (e: any) {
+        // The wall-clock budget ran out during the call
+        if (budget.deadline?.aborted) {
+          const reason = checkRunBudget(budget)!;
+          return await summarizeOnBudget(reason);
+        }
         // If the provider rejects due to missing/invalid tools, surface and terminate loop
         const emsg =
           (e && typeof e === "object" && "message" in e
@@ -362,7 +739,7 @@ export async function chatWithOpenAI(
           if (quiet) {
             const decorated = `${scopeLabel} ${assistantText}`;
             console.log(opts.textOnly ? decorated : "\n" + decorated + "\n");
-        } else*/ if (!isFinalTurn && !quiet) {
+        } else*/ if (!isFinalTurn && !quiet && !streamed) {
           const out = `${scopeLabel} au au ${assistantText}`;
           console.log(opts.textOnly ? out : "\n" + out + "\n");
         }
@@ -373,31 +750,34 @@ export async function chatWithOpenAI(
         return assistantText || lastAssistantText || "";
       }
 
-      // Execute each requested tool call, append tool results, then loop
-      for (const tc of toolCalls) {
+      // Execute the requested tool calls concurrently (bounded by tool_concurrency),
+      // then append their results in the original order
+      // `call` is this call's trace record; runToolCall fills in server and subtree
+      // Images for the model, by tool call id (sent after the tool messages)
+      const turnImages = new Map<string, ImagePart[]>();
+      const runToolCall = async (
+        tc: any,
+        call: TraceToolCall
+      ): Promise<string> => {
         const toolName = tc?.function?.name;
         const rawArgs = tc?.function?.arguments ?? "";
-        const callId = tc?.id;
 
         if (!toolName) {
-          // Append an error tool message so the model can recover
-          messages.push({
-            role: "tool",
-            tool_call_id: callId,
-            content: `Tool call missing function name`,
-          });
-          continue;
+          // Return an error tool message so the model can recover
+          return `Tool call missing function name`;
         }
         // Handle virtual tool "call_agent" by recursively invoking this function with per-agent scoping.
         if (toolName === "call_agent") {
-          // Depth guard to avoid runaway recursion
-          if (depth >= 5) {
-            messages.push({
-              role: "tool",
-              tool_call_id: callId,
-              content: `call_agent refused: maximum recursion depth reached`,
-            });
-            continue;
+          // Depth guard to avoid runaway recursion. Like the step limit, hitting it ends the
+          // run: every agent summarizes on its next turn and the CLI exits with status 3.
+          if (depth >= maxDepth) {
+            const reason = `depth budget of ${maxDepth} reached`;
+            budget.exhausted ??= reason;
+            return `call_agent refused: ${reason}`;
+          }
+          const exhausted = checkRunBudget(budget);
+          if (exhausted) {
+            return `call_agent refused: budget exhausted (${exhausted})`;
           }
 
           const args =
@@ -412,12 +792,7 @@ export async function chatWithOpenAI(
               : undefined;
 
           if (!subQuery) {
-            messages.push({
-              role: "tool",
-              tool_call_id: callId,
-              content: `call_agent requires a non-empty "query" string`,
-            });
-            continue;
+            return `call_agent requires a non-empty "query" string`;
           }
 
           // Resolve target agent name and enforce allowedAgents from current agent (if any)
@@ -426,35 +801,20 @@ export async function chatWithOpenAI(
             const { agents: mergedAgents } = loadAgents(app as any);
             const target = mergedAgents[targetName];
             if (!target) {
-              messages.push({
-                role: "tool",
-                tool_call_id: callId,
-                content: `call_agent failed: unknown agent '${targetName}'`,
-              });
-              continue;
+              return `call_agent failed: unknown agent '${targetName}'`;
             }
             // If we are currently in an agent scope, enforce allowedAgents
             if (currentAgent && Array.isArray(currentAgent.allowedAgents)) {
               const allowed = new Set(currentAgent.allowedAgents);
               if (!allowed.has(targetName)) {
-                messages.push({
-                  role: "tool",
-                  tool_call_id: callId,
-                  content: `call_agent refused: agent '${currentAgentName}' is not allowed to call '${targetName}'`,
-                });
-                continue;
+                return `call_agent refused: agent '${currentAgentName}' is not allowed to call '${targetName}'`;
               }
             }
             // Also enforce CLI allowlist (--agents/--agents-text-file), if provided
             else if (Array.isArray(opts.agents) && opts.agents.length) {
               const cliAllow = new Set(opts.agents);
               if (!cliAllow.has(targetName)) {
-                messages.push({
-                  role: "tool",
-                  tool_call_id: callId,
-                  content: `call_agent refused: target agent '${targetName}' not in CLI allowlist (--agents)`,
-                });
-                continue;
+                return `call_agent refused: target agent '${targetName}' not in CLI allowlist (--agents)`;
               }
             }
 
@@ -465,20 +825,23 @@ export async function chatWithOpenAI(
                 app as any,
                 subQuery,
                 nextOpts,
-                depth + 1
+                depth + 1,
+                undefined,
+                {
+                  usage: usage && addUsageChild(usage, targetName),
+                  budget,
+                  trace: (call.subtree =
+                    trace && createChildTrace(trace, targetName, subQuery)),
+                  sink,
+                  pool,
+                  circuits,
+                  artifacts,
+                }
               );
-              messages.push({
-                role: "tool",
-                tool_call_id: callId,
-                content: `call_agent completed: ${targetName}\n${result}`,
-              });
+              return `call_agent completed: ${targetName}\n${result}`;
             } catch (e: any) {
               const emsg = e?.message ?? String(e);
-              messages.push({
-                role: "tool",
-                tool_call_id: callId,
-                content: `call_agent failed (${targetName}): ${emsg}`,
-              });
+              return `call_agent failed (${targetName}): ${emsg}`;
             }
           } else {
             // No target agent: run unscoped (legacy behavior)
@@ -487,95 +850,258 @@ export async function chatWithOpenAI(
                 app as any,
                 subQuery,
                 opts,
-                depth + 1
+                depth + 1,
+                undefined,
+                {
+                  usage: usage && addUsageChild(usage, "unscoped"),
+                  budget,
+                  trace: (call.subtree =
+                    trace && createChildTrace(trace, "unscoped", subQuery)),
+                  sink,
+                  pool,
+                  circuits,
+                  artifacts,
+                }
               );
-              messages.push({
-                role: "tool",
-                tool_call_id: callId,
-                content: `call_agent completed (unscoped), result:\n${out}`,
-              });
+              return `call_agent completed (unscoped), result:\n${out}`;
             } catch (e: any) {
               const emsg = e?.message ?? String(e);
-              messages.push({
-                role: "tool",
-                tool_call_id: callId,
-                content: `call_agent failed (unscoped): ${emsg}`,
-              });
+              return `call_agent failed (unscoped): ${emsg}`;
             }
           }
-          continue;
         }
 
         const entry = registry.get(toolName);
         if (!entry) {
-          messages.push({
-            role: "tool",
-            tool_call_id: callId,
-            content: `Unknown tool: ${toolName}`,
+          return `Unknown tool: ${toolName}`;
+        }
+        call.server = entry.server.name;
+
+        // Parse arguments
+        const args =
+          typeof rawArgs === "string" ? safeParseJSON(rawArgs) : rawArgs;
+
+        const serverName = entry.server.name;
+        const serverConf = app.mcpServers[serverName];
+
+        // Argument-level rules from the server config and the agent's policy for it
+        const verdict = evaluateToolRules(
+          [
+            ...(serverConf?.tool_rules ?? []),
+            ...(currentAgent?.servers?.[serverName]?.tool_rules ?? []),
+          ],
+          entry.toolName ? [entry.toolName, toolName] : [toolName],
+          args ?? {}
+        );
+        if (verdict.action === "deny") {
+          return toolErrorResult({
+            type: "denied",
+            tool: toolName,
+            server: serverName,
+            message: `${verdict.reason}. Change the arguments to satisfy the policy or do without this call.`,
+            rule: verdict.rule && describeRule(verdict.rule),
           });
-          continue;
         }
 
         // Confirmation if required
-        if (requiresConfirmation.has(toolName) && !opts.noConfirmations) {
-          const ans = await (prompts as any)({
-            type: "confirm",
-            name: "ok",
-            message: `Run tool ${toolName}?`,
-            initial: false,
-          });
+        if (
+          (requiresConfirmation.has(toolName) ||
+            verdict.action === "confirm") &&
+          !opts.noConfirmations
+        ) {
+          if (!canPromptOnStdin()) {
+            consola.warn(
+              `Not running ${toolName}: it needs confirmation and stdin is not an interactive terminal`
+            );
+            return `User declined to run tool ${toolName}: it requires confirmation and there is no terminal to ask (stdin is piped). Rerun with --no-confirmations to allow it.`;
+          }
+          const ans: any = await confirmationLock(() =>
+            (prompts as any)({
+              type: "confirm",
+              name: "ok",
+              message:
+                verdict.action === "confirm"
+                  ? `Run tool ${toolName} with ${JSON.stringify(args ?? {})}? (rule: ${describeRule(verdict.rule)})`
+                  : `Run tool ${toolName}?`,
+              initial: false,
+              // Keep stdout clean for --output json/jsonl
+              stdout: machineOutput ? process.stderr : process.stdout,
+            })
+          );
           if (!ans?.ok) {
-            messages.push({
-              role: "tool",
-              tool_call_id: callId,
-              content: `User declined to run tool ${toolName}`,
-            });
-            continue;
+            return `User declined to run tool ${toolName}`;
           }
         }
+        if (circuits.isOpen(serverName, serverConf)) {
+          return toolErrorResult({
+            type: "server_unavailable",
+            tool: toolName,
+            server: serverName,
+            message: `Server ${serverName} is disabled for the rest of this run after ${serverConf?.circuit_breaker_failures} consecutive failed calls. Do not call its tools again.`,
+          });
+        }
 
-        // Parse arguments
-        const args =
-          typeof rawArgs === "string" ? safeParseJSON(rawArgs) : rawArgs;
-
-        // Call the MCP tool
+        // Call the MCP tool (timeout per attempt; retries for idempotent tools only).
+        // Ctrl-C or the end of the wall-clock budget aborts it; MCP progress notifications
+        // update the spinner.
+        const cancellable = trackCall();
+        const signal = budget.deadline
+          ? AbortSignal.any([cancellable.signal, budget.deadline])
+          : cancellable.signal;
+        const spinner = startToolSpinner(toolName);
         try {
-          const result = await (entry.server.client as any).callTool({
-            name: toolName,
-            arguments: args ?? {},
+          const limiter = serverLimiter(
+            serverName,
+            serverConf?.max_concurrency
+          );
+          const policy = callPolicy(serverConf, !!entry.idempotent);
+          const result = await withRetries(
+            policy,
+            () =>
+              limiter(() =>
+                entry.invoke
+                  ? entry.invoke(args ?? {}, {
+                      timeout: policy.timeoutMs,
+                      signal,
+                    })
+                  : (entry.server.client as any).callTool(
+                      {
+                        name: entry.toolName ?? toolName,
+                        arguments: args ?? {},
+                      },
+                      undefined,
+                      {
+                        timeout: policy.timeoutMs,
+                        signal,
+                        onprogress: spinner.progress,
+                      }
+                    )
+              ),
+            (err, nextAttempt, delayMs) =>
+              consola.debug(
+                `Tool ${toolName} failed (${err?.message ?? String(err)}); attempt ${nextAttempt} in ${delayMs} ms`
+              ),
+            signal
+          ).finally(() => {
+            spinner.stop();
+            cancellable.done();
+          });
+          circuits.record(serverName, true, serverConf);
+          const { text: rendered, images } = await renderToolResult(result, {
+            label: toolName,
+            vision,
+            artifacts,
           });
-          const rendered = normalizeMcpContentToString(result);
+          if (images.length) turnImages.set(tc?.id, images);
 
           if (!quiet) {
             // Show tool result chunks as they arrive (non-streamed here)
-            console.log(
-              opts.textOnly
-                ? rendered
-                : `\n[tool:${toolName}]${rendered ? "\n" + rendered + "\n" : ""}`
+            printAboveSpinner(() =>
+              console.log(
+                opts.textOnly
+                  ? rendered
+                  : `\n[tool:${toolName}]${rendered ? "\n" + rendered + "\n" : ""}`
+              )
             );
           }
 
-          messages.push({
-            role: "tool",
-            tool_call_id: callId,
-            content: rendered || "",
-          });
+          return rendered || "";
         } catch (e: any) {
-          const msg = e?.message ?? String(e);
-          messages.push({
-            role: "tool",
-            tool_call_id: callId,
-            content: `Tool ${toolName} failed: ${msg}`,
+          if (cancellable.signal.aborted) {
+            return toolErrorResult({
+              type: "cancelled",
+              tool: toolName,
+              server: serverName,
+              message:
+                "The user cancelled this call (Ctrl-C). Do not retry it unless asked to.",
+            });
+          }
+          if (budget.deadline?.aborted) {
+            return toolErrorResult({
+              type: "timeout",
+              tool: toolName,
+              server: serverName,
+              message: "The run's wall-clock budget ran out during this call.",
+            });
+          }
+          if (circuits.record(serverName, false, serverConf)) {
+            consola.warn(
+              `Disabling MCP server "${serverName}" for the rest of this run after ${serverConf?.circuit_breaker_failures} consecutive failed calls`
+            );
+          }
+          return toolErrorResult({
+            type: isTimeoutError(e) ? "timeout" : "call_failed",
+            tool: toolName,
+            server: serverName,
+            message: e?.message ?? String(e),
+            attempts: e?.attempts,
+          });
+        }
+      };
+      const calls: TraceToolCall[] = [];
+      const results = await mapWithConcurrency(
+        toolCalls,
+        toolConcurrency,
+        async (tc: any, i: number) => {
+          const call: TraceToolCall = (calls[i] = {
+            tool_call_id: tc?.id,
+            name: tc?.function?.name ?? "",
+            arguments: parseToolArgs(tc?.function?.arguments),
+            result: "",
+            started_at: new Date().toISOString(),
+            duration_ms: 0,
           });
+          const started = Date.now();
+          call.result = await runToolCall(tc, call);
+          call.duration_ms = Date.now() - started;
+          if (trace) {
+            const { subtree, ...rest } = call;
+            sink?.emit?.({
+              event: "tool_call",
+              id: trace.id,
+              agent: trace.agent,
+              ...rest,
+              subtree_id: subtree?.id,
+            });
+          }
+          return call.result;
         }
+      );
+      // Trace keeps the requested order, like the transcript
+      trace?.tool_calls.push(...calls);
+      toolCalls.forEach((tc: any, i: number) => {
+        messages.push({
+          role: "tool",
+          tool_call_id: tc?.id,
+          content: results[i],
+        });
+      });
+      // Tool messages are text-only, so images follow in a user message
+      const images = toolCalls.flatMap(
+        (tc: any) => turnImages.get(tc?.id) ?? []
+      );
+      if (images.length) {
+        messages.push({
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: "Images returned by the tool calls above, in order:",
+            },
+            ...images,
+          ],
+        });
       }
 
       // Loop continues: model will see tool outputs and may request more calls
     }
   } finally {
-    await Promise.allSettled(connected.map((c) => c.close()));
+    stopSampling();
+    // Session-owned tools stay connected for the next turn
+    if (!session?.tools) {
+      stopWatching();
+      await Promise.allSettled(connected.map((c) => c.close()));
+    }
+    if (ownsPool) await pool.close();
   }
-
-  // If we somehow exit the loop without a stop, return the last assistant message we observed
-  return lastAssistantText || "finished";
 }
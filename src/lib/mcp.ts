@@ -1,68 +1,87 @@
 import consola from "consola";
 import { spawn } from "node:child_process";
 import type { AppConfig, ServerConfig, AgentConfig } from "../types.js";
+import { qualifiedToolName } from "./util.js";
+import {
+  activeRecording,
+  createReplayServer,
+  recordServer,
+} from "./recording.js";
 
 // MCP SDK (stdio)
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { formatResource, resourceTools } from "./resources.js";
+import { handleSampling, samplingPolicy } from "./sampling.js";
+import { createRoots, rootsSpec, type RootsHandle } from "./roots.js";
+import { onShutdown } from "./interrupt.js";
+import {
+  DEFAULT_TOOL_CACHE_TTL_SECONDS,
+  getCachedTools,
+  invalidateCachedTools,
+  putCachedTools,
+} from "./tool-cache.js";
 
 // Public types
 export type ConnectedServer = {
   name: string;
   client: Client;
   close: () => Promise<void>;
+  /**
+   * Roots advertised to the server (absent for replayed servers).
+   */
+  roots?: RootsHandle;
+  /**
+   * Subscribe to the server's tools/list_changed notifications; returns an unsubscribe function.
+   */
+  onToolsChanged?: (listener: () => void) => () => void;
 };
 
 export type ToolRegistryEntry = {
+  /**
+   * Name the model sees: server-qualified ("gmail__read_email") for MCP tools.
+   */
   name: string;
+  /**
+   * The tool's own name on its server (what callTool receives).
+   */
+  toolName?: string;
   description?: string;
   parameters?: any;
   server: ConnectedServer;
+  /**
+   * Safe to retry after a failure (see ServerConfig.retries).
+   */
+  idempotent?: boolean;
+  /**
+   * Virtual tools (e.g. resource access) run this instead of callTool on the server.
+   * Resolves to an MCP-style result ({ content: [...] }). `options` carries the call's
+   * timeout and abort signal for the requests it makes.
+   */
+  invoke?: (
+    args: any,
+    options?: { timeout?: number; signal?: AbortSignal }
+  ) => Promise<any>;
 };
 
-// Connect a single MCP server over either stdio (child process) or SSE (HTTP)
-export async function connectServer(
-  name: string,
+/**
+ * Transport selected by a server config: streamable HTTP (http.url) over SSE (sse.url)
+ * over stdio (command). Undefined when the config provides none of them.
+ */
+export function serverTransport(
   conf: ServerConfig
-): Promise<ConnectedServer> {
-  const sseUrl = conf?.sse?.url;
-
-  let transport: SSEClientTransport | StdioClientTransport;
-  if (sseUrl && typeof sseUrl === "string") {
-    // SSE transport: connect to remote MCP server via HTTP(S) Server-Sent Events
-    const urlObj = new URL(sseUrl);
-    const headers = conf?.sse?.headers ?? {};
-    transport = new SSEClientTransport(urlObj, {
-      fetch: (url, init) => {
-        return fetch(url, {
-          ...init,
-          headers: {
-            ...init?.headers,
-            ...headers,
-          },
-        });
-      },
-    });
-  } else {
-    // stdio transport: spawn a local MCP server process
-    const cmd = conf?.command;
-    const args = conf?.args ?? [];
-    if (!cmd || typeof cmd !== "string") {
-      throw new Error(
-        `Invalid MCP server config for "${name}": either provide sse.url or a non-empty "command"`
-      );
-    }
-    const env = { ...process.env, ...(conf.env ?? {}) };
-    transport = new StdioClientTransport({
-      command: cmd,
-      args,
-      env,
-    } as any);
-  }
+): "http" | "sse" | "stdio" | undefined {
+  if (conf?.http?.url && typeof conf.http.url === "string") return "http";
+  if (conf?.sse?.url && typeof conf.sse.url === "string") return "sse";
+  if (conf?.command && typeof conf.command === "string") return "stdio";
+  return undefined;
+}
 
-  const client = new Client(
+function newClient(sampling: boolean) {
+  return new Client(
     {
       name: "mcp-client-cli",
       version: "0.1.0",
@@ -72,13 +91,90 @@ export async function connectServer(
         prompts: {},
         tools: {},
         resources: {},
+        roots: { listChanged: true },
+        ...(sampling ? { sampling: {} } : {}),
       },
     }
   );
+}
+
+// SSE transport: connect to remote MCP server via HTTP(S) Server-Sent Events
+function sseTransport(url: string, headers: Record<string, string> = {}) {
+  return new SSEClientTransport(new URL(url), {
+    fetch: (url, init) => {
+      // init.headers may be a Headers instance (which does not spread), so merge through Headers
+      const merged = new Headers(init?.headers);
+      for (const [k, v] of Object.entries(headers)) merged.set(k, v);
+      return fetch(url, { ...init, headers: merged });
+    },
+  });
+}
+
+// stdio transport: spawn a local MCP server process
+function stdioTransport(conf: ServerConfig) {
+  const env = { ...process.env, ...(conf.env ?? {}) };
+  return new StdioClientTransport({
+    command: conf.command,
+    args: conf.args ?? [],
+    env,
+  } as any);
+}
+
+// Connect a single MCP server over streamable HTTP, SSE (HTTP) or stdio (child process).
+// `app` supplies the model for servers with allow_sampling; without it sampling is not offered.
+// `roots` defaults to the server's configured roots.
+export async function connectServer(
+  name: string,
+  conf: ServerConfig,
+  app?: Pick<AppConfig, "llm">,
+  roots: RootsHandle = createRoots(conf.roots)
+): Promise<ConnectedServer> {
+  // --replay: answer from the recording without spawning or contacting the server
+  const recording = activeRecording();
+  if (recording?.mode === "replay") return createReplayServer(name);
+
+  const kind = serverTransport(conf);
+  if (!kind) {
+    throw new Error(
+      `Invalid MCP server config for "${name}": provide http.url, sse.url or a non-empty "command"`
+    );
+  }
+
+  const sampling = app ? samplingPolicy(conf) : undefined;
+  const makeClient = () => {
+    const c = newClient(!!sampling);
+    if (sampling) handleSampling(c, name, sampling, app!);
+    roots.attach(c);
+    return c;
+  };
+  let client = makeClient();
 
   // Establish MCP client connection with detailed error reporting
   try {
-    await client.connect(transport);
+    if (kind === "http") {
+      const { url, headers } = conf.http!;
+      try {
+        await client.connect(
+          new StreamableHTTPClientTransport(new URL(url), {
+            requestInit: { headers: headers ?? {} },
+          })
+        );
+      } catch (err: any) {
+        // Servers that predate streamable HTTP only offer the HTTP+SSE transport
+        consola.debug(
+          `connect("${name}") over streamable HTTP failed (${err?.message ?? String(err)}); retrying over SSE`
+        );
+        await client.close().catch(() => {});
+        client = makeClient();
+        await client.connect(sseTransport(url, headers));
+      }
+    } else {
+      await client.connect(
+        kind === "sse"
+          ? sseTransport(conf.sse!.url, conf.sse!.headers)
+          : stdioTransport(conf)
+      );
+    }
   } catch (err: any) {
     const msg = err?.message ?? String(err);
     const stack = err?.stack ?? "";
@@ -89,6 +185,20 @@ export async function connectServer(
     throw err;
   }
 
+  // A changed tool list makes the cached schemas stale; subscribers re-list the tools
+  const toolListeners = new Set<() => void>();
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+    // Listeners first, so a refresh is pending before the tool call's result is handled
+    for (const listener of toolListeners) listener();
+    await invalidateCachedTools(name);
+  });
+  const onToolsChanged = (listener: () => void) => {
+    toolListeners.add(listener);
+    return () => {
+      toolListeners.delete(listener);
+    };
+  };
+
   const close = async () => {
     try {
       await client.close();
@@ -97,7 +207,199 @@ export async function connectServer(
     }
   };
 
-  return { name, client, close };
+  const server = { name, client, close, roots, onToolsChanged };
+  return recording?.mode === "record" ? recordServer(server) : server;
+}
+
+// Async request methods a lazy server forwards; anything else needs a connected client
+const LAZY_CLIENT_METHODS = [
+  "callTool",
+  "listTools",
+  "listResources",
+  "listResourceTemplates",
+  "readResource",
+  "listPrompts",
+  "getPrompt",
+  "complete",
+  "ping",
+] as const;
+
+// Server handle that connects on first use (tools served from cache need no connection up front)
+function lazyServer(
+  name: string,
+  conf: ServerConfig,
+  app: Pick<AppConfig, "llm">,
+  roots: RootsHandle
+): ConnectedServer {
+  let connecting: Promise<ConnectedServer> | undefined;
+  // Subscriptions made before the connection exists are forwarded once it does
+  const toolListeners = new Set<() => void>();
+  const connect = () =>
+    (connecting ??= connectServer(name, conf, app, roots).then((s) => {
+      s.onToolsChanged?.(() => {
+        for (const listener of toolListeners) listener();
+      });
+      return s;
+    }));
+  const forwarded = Object.fromEntries(
+    LAZY_CLIENT_METHODS.map((method) => [
+      method,
+      async (...args: any[]) => {
+        const s = await connect();
+        return (s.client as any)[method](...args);
+      },
+    ])
+  );
+  const client = new Proxy(forwarded, {
+    get: (target, prop) => {
+      // Symbols and "then" stay undefined, so the handle is not thenable and can be inspected
+      if (typeof prop === "symbol" || prop === "then") return undefined;
+      if (Object.prototype.hasOwnProperty.call(target, prop)) {
+        return target[prop];
+      }
+      throw new Error(
+        `Client.${prop} is not available on "${name}" before it connects`
+      );
+    },
+  });
+  const close = async () => {
+    if (!connecting) return;
+    const s = await connecting.catch(() => undefined);
+    await s?.close();
+  };
+  const onToolsChanged = (listener: () => void) => {
+    toolListeners.add(listener);
+    return () => {
+      toolListeners.delete(listener);
+    };
+  };
+  return {
+    name,
+    client: client as unknown as Client,
+    close,
+    roots,
+    onToolsChanged,
+  };
+}
+
+// Servers whose cache entry was already rebuilt by --force-refresh in this process
+const refreshedServers = new Set<string>();
+
+/**
+ * A server's tools. Served from the on-disk cache while fresh (the server then connects lazily,
+ * on its first tool call); otherwise connects, calls listTools and refreshes the cache.
+ * `opts.roots` overrides the server's configured roots (see rootsSpec).
+ */
+export async function loadServerTools(
+  app: Pick<AppConfig, "tool_cache" | "llm">,
+  name: string,
+  conf: ServerConfig,
+  opts: { forceRefresh?: boolean; roots?: string[] }
+): Promise<{
+  server: ConnectedServer;
+  tools: any[];
+  capabilities: Record<string, any>;
+}> {
+  // Recordings must see every listTools exchange, so record/replay bypasses the cache
+  const useCache = app.tool_cache?.enabled !== false && !activeRecording();
+  const forced = !!opts.forceRefresh && !refreshedServers.has(name);
+  const roots = createRoots(opts.roots ?? conf.roots);
+  if (useCache && !forced) {
+    const cached = await getCachedTools(
+      name,
+      conf,
+      app.tool_cache?.ttl_seconds ?? DEFAULT_TOOL_CACHE_TTL_SECONDS
+    );
+    if (cached) {
+      return {
+        server: lazyServer(name, conf, app, roots),
+        tools: cached.tools,
+        capabilities: cached.capabilities,
+      };
+    }
+  }
+
+  const server = await connectServer(name, conf, app, roots);
+  let tools: any[];
+  try {
+    tools = (await server.client.listTools())?.tools ?? [];
+  } catch (e: any) {
+    await server.close();
+    throw new Error(`cannot list tools (${e?.message ?? String(e)})`);
+  }
+  const capabilities = server.client.getServerCapabilities() ?? {};
+  if (useCache) {
+    try {
+      await putCachedTools(name, conf, tools, capabilities);
+    } catch (e) {
+      await server.close();
+      throw e;
+    }
+    refreshedServers.add(name);
+  }
+  return { server, tools, capabilities };
+}
+
+type LoadedServer = Awaited<ReturnType<typeof loadServerTools>>;
+
+/**
+ * Servers connected for one run, shared by every agent scope in its call_agent tree.
+ * Each server is loaded (and, when needed, spawned) once per set of roots; scopes only filter its tools.
+ * The run's owner closes the pool when the top-level run finishes.
+ */
+export type ServerPool = {
+  load: (
+    app: Pick<AppConfig, "tool_cache" | "llm">,
+    name: string,
+    conf: ServerConfig,
+    opts: { forceRefresh?: boolean; roots?: string[] }
+  ) => Promise<LoadedServer>;
+  /**
+   * Replace the roots of every server, now and for servers loaded later (undefined restores
+   * the configured roots). Servers whose roots change are notified.
+   */
+  setRoots: (spec?: string[]) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+export function createServerPool(): ServerPool {
+  // Promises, so concurrent sub-agents wait for the same connection; failures are kept too
+  const loaded = new Map<string, Promise<LoadedServer>>();
+  let rootsOverride: string[] | undefined;
+  // Ctrl-C shutdown closes pools that are still open
+  const unregister = onShutdown(() => close());
+  const settled = async () =>
+    (await Promise.allSettled(loaded.values())).flatMap((r) =>
+      r.status === "fulfilled" ? [r.value.server] : []
+    );
+  return {
+    load: (app, name, conf, opts) => {
+      // Agents with different roots need their own connection
+      const key = `${name}\0${JSON.stringify(opts.roots ?? null)}`;
+      let entry = loaded.get(key);
+      if (!entry) {
+        entry = loadServerTools(app, name, conf, opts).then(async (r) => {
+          if (rootsOverride) await r.server.roots?.set(rootsOverride);
+          return r;
+        });
+        loaded.set(key, entry);
+      }
+      return entry;
+    },
+    setRoots: async (spec) => {
+      rootsOverride = spec;
+      await Promise.allSettled(
+        (await settled()).map((s) => s.roots?.set(spec))
+      );
+    },
+    close,
+  };
+  async function close() {
+    unregister();
+    const servers = await settled();
+    loaded.clear();
+    await Promise.allSettled(servers.map((s) => s.close()));
+  }
 }
 
 // List tools across enabled servers (for CLI flag)
@@ -115,44 +417,34 @@ export async function listAllTools(
   console.log("\n\x1b[1mAvailable LLM Tools\x1b[0m\n");
 
   const connected: ConnectedServer[] = [];
+  // Bare tool name -> servers exposing it (to report ambiguous names)
+  const owners = new Map<string, string[]>();
   try {
     for (const [name, sconf] of servers) {
-      const hasSse = !!(sconf as any)?.sse?.url;
-      const hasCmd = !!(sconf?.command && typeof sconf.command === "string");
-      if (!hasSse && !hasCmd) {
+      if (!serverTransport(sconf)) {
         consola.warn(
-          `Skipping server "${name}": provide either sse.url or a valid "command"`
+          `Skipping server "${name}": provide http.url, sse.url or a valid "command"`
         );
         continue;
       }
 
-      let s: ConnectedServer | undefined;
+      let tools: any[];
       try {
-        s = await connectServer(name, sconf);
-        connected.push(s);
+        const loaded = await loadServerTools(app, name, sconf, opts);
+        connected.push(loaded.server);
+        tools = loaded.tools;
       } catch (err: any) {
         const msg = err?.message ?? String(err);
-        consola.warn(`Failed to connect to "${name}": ${msg}`);
+        consola.warn(`Failed to load tools from "${name}": ${msg}`);
         if (err?.stack) {
           consola.debug(err.stack);
         }
         continue;
       }
-
-      let tools: Awaited<ReturnType<Client["listTools"]>>;
-      try {
-        tools = await s.client.listTools();
-      } catch (e) {
-        const msg =
-          e && typeof e === "object" && "message" in (e as any)
-            ? (e as any).message
-            : String(e);
-        consola.warn(`Server ${name}: cannot list tools (${msg})`);
-        continue;
-      }
       const exclude = new Set(sconf.exclude_tools ?? []);
-      const filtered = (tools?.tools ?? []).filter(
-        (t: any) => !exclude.has(t.name)
+      const filtered = tools.filter(
+        (t: any) =>
+          !exclude.has(t.name) && !exclude.has(qualifiedToolName(name, t.name))
       );
       if (!filtered.length) {
         console.log(`${name}: no tools`);
@@ -161,18 +453,63 @@ export async function listAllTools(
       console.log(`[${name}]`);
       for (const t of filtered) {
         console.log(`- ${t.name}${t.description ? `: ${t.description}` : ""}`);
+        owners.set(t.name, [...(owners.get(t.name) ?? []), name]);
       }
     }
   } finally {
     await Promise.allSettled(connected.map((c) => c.close()));
   }
+  for (const [tool, servers] of owners) {
+    if (servers.length < 2) continue;
+    consola.warn(
+      `Tool "${tool}" is exposed by ${servers.join(", ")}; agents see it as ${servers.map((s) => qualifiedToolName(s, tool)).join(", ")}`
+    );
+  }
+  console.log("");
+}
+
+// List resources across enabled servers (for CLI flag)
+export async function listAllResources(app: AppConfig) {
+  const servers = Object.entries(app.mcpServers).filter(
+    ([, s]) => s.enabled !== false && serverTransport(s)
+  );
+  if (!servers.length) {
+    consola.info("No enabled MCP servers in config");
+    return;
+  }
+  console.log("\n\x1b[1mAvailable MCP Resources\x1b[0m\n");
+
+  for (const [name, sconf] of servers) {
+    let s: ConnectedServer | undefined;
+    try {
+      s = await connectServer(name, sconf, app);
+      if (!s.client.getServerCapabilities()?.resources) {
+        console.log(`${name}: no resources`);
+        continue;
+      }
+      const res = await s.client.listResources();
+      if (!res?.resources?.length) {
+        console.log(`${name}: no resources`);
+        continue;
+      }
+      console.log(`[${name}]`);
+      for (const r of res.resources) console.log(formatResource(r));
+    } catch (err: any) {
+      consola.warn(
+        `Failed to list resources of "${name}": ${err?.message ?? String(err)}`
+      );
+    } finally {
+      await s?.close();
+    }
+  }
   console.log("");
 }
 
-// Build registry for OpenAI function tools and keep servers connected
+// Build registry for OpenAI function tools and keep servers connected.
+// With opts.pool, servers come from (and stay owned by) the pool and `connected` is empty.
 export async function setupTools(
   app: AppConfig,
-  opts: { noTools?: boolean },
+  opts: { noTools?: boolean; forceRefresh?: boolean; pool?: ServerPool },
   agentScope?: { agentName?: string; agent?: AgentConfig }
 ): Promise<{
   connected: ConnectedServer[];
@@ -181,15 +518,30 @@ export async function setupTools(
     type: "function";
     function: { name: string; description?: string; parameters?: any };
   }>;
+  /**
+   * Resolves once tool list refreshes started by list_changed notifications have finished.
+   */
+  refreshed: () => Promise<void>;
+  /**
+   * Stop following the servers' tool list changes.
+   */
+  stopWatching: () => void;
 }> {
+  const none = () => ({
+    connected: [],
+    registry: new Map(),
+    openAITools: [],
+    refreshed: async () => {},
+    stopWatching: () => {},
+  });
   if (opts.noTools) {
-    return { connected: [], registry: new Map(), openAITools: [] };
+    return none();
   }
 
   // Enforce: The default (no agent scope) cannot execute tools.
   // Only when an agent scope is provided do we expose any tools.
   if (!agentScope?.agent) {
-    return { connected: [], registry: new Map(), openAITools: [] };
+    return none();
   }
 
   // Build list of servers respecting "enabled" and per-agent allowlist
@@ -206,35 +558,19 @@ export async function setupTools(
   });
   const connected: ConnectedServer[] = [];
   const registry = new Map<string, ToolRegistryEntry>();
+  const openAITools: Array<{
+    type: "function";
+    function: { name: string; description?: string; parameters?: any };
+  }> = [];
+  const unsubscribe: Array<() => void> = [];
 
-  for (const [name, sconf] of servers) {
-    const hasSse = !!(sconf as any)?.sse?.url;
-    const hasCmd = !!(sconf?.command && typeof sconf.command === "string");
-    if (!hasSse && !hasCmd) continue;
-    let s: ConnectedServer | undefined;
-    try {
-      s = await connectServer(name, sconf);
-      connected.push(s);
-    } catch (err: any) {
-      const msg = err?.message ?? String(err);
-      consola.warn(`Failed to connect to "${name}": ${msg}`);
-      if (err?.stack) {
-        consola.debug(err.stack);
-      }
-      continue;
-    }
-
-    let tools: Awaited<ReturnType<Client["listTools"]>>;
-    try {
-      tools = await s.client.listTools();
-    } catch (e) {
-      const msg =
-        e && typeof e === "object" && "message" in (e as any)
-          ? (e as any).message
-          : String(e);
-      consola.warn(`Server ${name}: cannot list tools (${msg})`);
-      continue;
-    }
+  // Register a server's tools that pass the global and agent include/exclude filters
+  const registerTools = (
+    name: string,
+    sconf: ServerConfig,
+    s: ConnectedServer,
+    tools: any[]
+  ) => {
     // Global include/exclude (server-level)
     const globalExclude = new Set(sconf.exclude_tools ?? []);
     const globalInclude = new Set(
@@ -251,39 +587,132 @@ export async function setupTools(
     // Compose filter predicate:
     // - If any include list exists (global or agent), the tool must appear in ALL provided include lists.
     // - Any exclude list (global or agent) will remove the tool.
-    const filtered = (tools?.tools ?? []).filter((t: any) => {
-      const toolName = t.name as string;
+    // Lists belong to one server and may use the bare or the qualified tool name.
+    const filtered = tools.filter((t: any) => {
+      const names = [t.name as string, qualifiedToolName(name, t.name)];
+      const listed = (list: Set<unknown>) => names.some((n) => list.has(n));
 
       // Exclusions take precedence
-      if (globalExclude.has(toolName)) return false;
-      if (agentExclude.has(toolName)) return false;
+      if (listed(globalExclude)) return false;
+      if (listed(agentExclude)) return false;
 
       // Includes: if defined, must be present
-      if (globalInclude.size > 0 && !globalInclude.has(toolName)) return false;
-      if (agentInclude.size > 0 && !agentInclude.has(toolName)) return false;
+      if (globalInclude.size > 0 && !listed(globalInclude)) return false;
+      if (agentInclude.size > 0 && !listed(agentInclude)) return false;
 
       return true;
     });
     for (const t of filtered) {
       // MCP input schema typically under inputSchema
       const parameters = t.inputSchema ?? t.parameters ?? undefined;
-      registry.set(t.name, {
-        name: t.name,
+      const qualified = qualifiedToolName(name, t.name);
+      const idempotent =
+        (sconf.idempotent_tools ?? []).some(
+          (n) => n === t.name || n === qualified
+        ) ||
+        t.annotations?.readOnlyHint === true ||
+        t.annotations?.idempotentHint === true;
+      registry.set(qualified, {
+        name: qualified,
+        toolName: t.name,
         description: t.description,
         parameters,
         server: s,
+        idempotent,
       });
     }
+  };
+
+  // Rebuilt in place, so holders of the array see refreshed tool lists
+  const syncOpenAITools = () => {
+    openAITools.splice(
+      0,
+      openAITools.length,
+      ...Array.from(registry.values()).map((t) => ({
+        type: "function" as const,
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.parameters,
+        },
+      }))
+    );
+  };
+
+  // Latest pending refresh per server; refreshes of one server run one after another
+  const refreshing = new Map<string, Promise<void>>();
+
+  // On tools/list_changed, re-list the server's tools and re-apply the filters
+  const watch = (name: string, sconf: ServerConfig, s: ConnectedServer) => {
+    if (!s.onToolsChanged) return;
+    const refresh = async () => {
+      try {
+        const tools = (await s.client.listTools())?.tools ?? [];
+        for (const [key, entry] of registry) {
+          // Resource tools have no toolName and do not depend on the tool list
+          if (entry.server.name === name && entry.toolName)
+            registry.delete(key);
+        }
+        registerTools(name, sconf, s, tools);
+        syncOpenAITools();
+        consola.debug(
+          `Tool list of "${name}" changed; ${tools.length} tool(s) listed`
+        );
+      } catch (err: any) {
+        consola.warn(
+          `Failed to refresh tools from "${name}": ${err?.message ?? err}`
+        );
+      }
+    };
+    unsubscribe.push(
+      s.onToolsChanged(() => {
+        refreshing.set(
+          name,
+          (refreshing.get(name) ?? Promise.resolve()).then(refresh)
+        );
+      })
+    );
+  };
+
+  for (const [name, sconf] of servers) {
+    if (!serverTransport(sconf)) continue;
+    let s: ConnectedServer;
+    let tools: any[];
+    let capabilities: Record<string, any>;
+    try {
+      ({
+        server: s,
+        tools,
+        capabilities,
+      } = await (opts.pool?.load ?? loadServerTools)(app, name, sconf, {
+        forceRefresh: opts.forceRefresh,
+        roots: rootsSpec(sconf, agentScope?.agent),
+      }));
+      if (!opts.pool) connected.push(s);
+    } catch (err: any) {
+      const msg = err?.message ?? String(err);
+      consola.warn(`Failed to load tools from "${name}": ${msg}`);
+      if (err?.stack) {
+        consola.debug(err.stack);
+      }
+      continue;
+    }
+    registerTools(name, sconf, s, tools);
+    watch(name, sconf, s);
+    // Servers offering resources get list/read virtual tools
+    if (capabilities.resources) {
+      const policy = agentScope?.agent?.servers?.[name];
+      for (const t of resourceTools(s, policy)) registry.set(t.name, t);
+    }
   }
 
-  const openAITools = Array.from(registry.values()).map((t) => ({
-    type: "function" as const,
-    function: {
-      name: t.name,
-      description: t.description,
-      parameters: t.parameters,
-    },
-  }));
+  syncOpenAITools();
 
-  return { connected, registry, openAITools };
+  const stopWatching = () => {
+    for (const stop of unsubscribe.splice(0)) stop();
+  };
+  const refreshed = async () => {
+    await Promise.all(refreshing.values());
+  };
+  return { connected, registry, openAITools, refreshed, stopWatching };
 }
@@ -0,0 +1,86 @@
+import ora, { type Ora } from "ora";
+
+/**
+ * Live spinner on stderr for in-flight tool calls, one entry per call with its latest
+ * MCP progress. Concurrent calls share one spinner line. Disabled when stderr is not a TTY.
+ */
+
+const active = new Map<number, string>();
+let spinner: Ora | undefined;
+let nextId = 0;
+// Prompts hold the terminal; the spinner stays hidden until they are answered
+let paused = 0;
+
+function render() {
+  if (!active.size || paused) {
+    spinner?.stop();
+    spinner = undefined;
+    return;
+  }
+  const text = [...active.values()].join("  ·  ");
+  if (spinner) spinner.text = text;
+  // ora's default stdin discarding pauses stdin when it stops, which would freeze an open prompt
+  else
+    spinner = ora({
+      text,
+      stream: process.stderr,
+      discardStdin: false,
+    }).start();
+}
+
+function describe(
+  label: string,
+  p?: { progress: number; total?: number; message?: string }
+) {
+  if (!p) return label;
+  const amount = p.total
+    ? `${Math.round((p.progress / p.total) * 100)}%`
+    : `${p.progress}`;
+  return `${label} ${amount}${p.message ? ` ${p.message}` : ""}`;
+}
+
+export type ToolSpinner = {
+  progress: (p: { progress: number; total?: number; message?: string }) => void;
+  stop: () => void;
+};
+
+export function startToolSpinner(label: string): ToolSpinner {
+  if (!process.stderr.isTTY) return { progress: () => {}, stop: () => {} };
+  const id = nextId++;
+  active.set(id, describe(label));
+  render();
+  return {
+    progress: (p) => {
+      if (!active.has(id)) return;
+      active.set(id, describe(label, p));
+      render();
+    },
+    stop: () => {
+      active.delete(id);
+      render();
+    },
+  };
+}
+
+/**
+ * Clear the spinner line while `print` writes to the terminal, then redraw it.
+ */
+export function printAboveSpinner(print: () => void) {
+  spinner?.clear();
+  print();
+  spinner?.render();
+}
+
+/**
+ * Hide the spinner while `fn` (e.g. a confirmation prompt) uses the terminal.
+ */
+export async function withSpinnerPaused<T>(fn: () => Promise<T>): Promise<T> {
+  paused++;
+  render();
+  try {
+    return await fn();
+  } finally {
+    paused--;
+    render();
+  }
+}
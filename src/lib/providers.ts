@@ -0,0 +1,196 @@
+import consola from "consola";
+import { OpenAI } from "openai";
+import type { LLMConfig } from "../types.js";
+
+/**
+ * Provider adapters selected by `llm.provider`.
+ *
+ * Every adapter exposes an OpenAI-shaped client (`chat.completions.create`, streamed or not),
+ * so the chat loop stays provider-agnostic. Adapters for other tool-calling formats translate
+ * requests and responses inside their client. Request parameters are renamed where a model
+ * expects another name, and those an adapter does not support for a model are dropped.
+ */
+export type ProviderAdapter = {
+  name: string;
+  /**
+   * Build the client. `llm` carries the configured api_key/base_url (may be unset).
+   */
+  createClient: (llm: Partial<LLMConfig>) => OpenAI;
+  /**
+   * Whether a request parameter (e.g. "temperature", "reasoning_effort") is accepted for `model`.
+   * `model` and `messages` are always sent.
+   */
+  supportsParam: (param: string, model: string) => boolean;
+  /**
+   * Name a request parameter is sent under for `model` (e.g. "max_tokens" becomes
+   * "max_completion_tokens" for OpenAI reasoning models). Unchanged when omitted.
+   */
+  mapParam?: (param: string, model: string) => string;
+  /**
+   * Whether `model` accepts image parts in user messages. Assumed false when omitted.
+   */
+  supportsImages?: (model: string) => boolean;
+};
+
+const providers = new Map<string, ProviderAdapter>();
+
+export const DEFAULT_PROVIDER = "openai";
+
+export function registerProvider(
+  adapter: ProviderAdapter,
+  aliases: string[] = []
+) {
+  for (const name of [adapter.name, ...aliases]) providers.set(name, adapter);
+}
+
+// Unknown provider names already warned about
+const warnedProviders = new Set<string>();
+
+/**
+ * Adapter for `name`. Configs from before adapters existed may carry any llm.provider value,
+ * which was ignored then; unknown names warn and keep that behavior (the OpenAI client with
+ * llm.base_url when set).
+ */
+export function getProvider(name?: string): ProviderAdapter {
+  const adapter = providers.get(name || DEFAULT_PROVIDER);
+  if (adapter) return adapter;
+  if (!warnedProviders.has(name!)) {
+    warnedProviders.add(name!);
+    consola.warn(
+      `Unknown llm.provider '${name}'; using '${DEFAULT_PROVIDER}'. Known providers: ${[...providers.keys()].join(", ")}`
+    );
+  }
+  return providers.get(DEFAULT_PROVIDER)!;
+}
+
+// Reasoning models (o1/o3/o4, gpt-5) take reasoning_effort but reject a non-default temperature
+function isOpenAIReasoningModel(model: string) {
+  return /^(o\d|gpt-5)/.test(model);
+}
+
+// Accepted by OpenAI and by OpenAI-compatible servers
+const COMMON_PARAMS = new Set([
+  "max_tokens",
+  "top_p",
+  "stop",
+  "seed",
+  "tools",
+  "tool_choice",
+  "stream",
+  "stream_options",
+  "response_format",
+]);
+
+export const openAIProvider: ProviderAdapter = {
+  name: "openai",
+  createClient: (llm) => {
+    const apiKey =
+      llm.api_key || process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "Missing OpenAI API key. Set llm.api_key in config or OPENAI_API_KEY env."
+      );
+    }
+    const baseURL =
+      llm.base_url ||
+      process.env.OPENAI_BASE_URL ||
+      process.env.LLM_BASE_URL ||
+      undefined;
+    return new OpenAI({ apiKey, baseURL });
+  },
+  supportsParam: (param, model) => {
+    if (param === "temperature") return !isOpenAIReasoningModel(model);
+    if (param === "reasoning_effort") return isOpenAIReasoningModel(model);
+    if (param === "max_completion_tokens") return true;
+    return COMMON_PARAMS.has(param);
+  },
+  // Reasoning models reject max_tokens; max_completion_tokens also counts reasoning tokens
+  mapParam: (param, model) =>
+    param === "max_tokens" && isOpenAIReasoningModel(model)
+      ? "max_completion_tokens"
+      : param,
+  supportsImages: (model) =>
+    /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1(?!-mini)|o3(?!-mini)|o4)/.test(
+      model
+    ),
+};
+
+/**
+ * Adapter for a local server speaking the OpenAI chat completions API (Ollama, llama.cpp, vLLM, ...).
+ * No API key is required; reasoning_effort is not part of their API and is dropped, and
+ * max_completion_tokens is sent as max_tokens, which they all accept.
+ */
+export function openAICompatibleProvider(
+  name: string,
+  defaultBaseUrl?: string
+): ProviderAdapter {
+  return {
+    name,
+    createClient: (llm) => {
+      const baseURL =
+        llm.base_url || process.env.LLM_BASE_URL || defaultBaseUrl;
+      if (!baseURL) {
+        throw new Error(
+          `Provider '${name}' needs llm.base_url (e.g. http://localhost:8000/v1)`
+        );
+      }
+      return new OpenAI({
+        apiKey: llm.api_key || process.env.LLM_API_KEY || "not-needed",
+        baseURL,
+      });
+    },
+    supportsParam: (param) =>
+      param === "temperature" || COMMON_PARAMS.has(param),
+    mapParam: (param) =>
+      param === "max_completion_tokens" ? "max_tokens" : param,
+  };
+}
+
+registerProvider(openAIProvider);
+registerProvider(openAICompatibleProvider("openai-compatible"), ["local"]);
+registerProvider(
+  openAICompatibleProvider("ollama", "http://localhost:11434/v1")
+);
+registerProvider(
+  openAICompatibleProvider("llamacpp", "http://localhost:8080/v1"),
+  ["llama.cpp"]
+);
+
+/**
+ * Rename request parameters as the provider expects for the payload's model, and remove
+ * those it does not accept.
+ */
+export function filterPayload(adapter: ProviderAdapter, payload: any) {
+  const out: any = {};
+  for (const [key, value] of Object.entries(payload ?? {})) {
+    const name = adapter.mapParam?.(key, payload.model) ?? key;
+    if (key === "model" || key === "messages") {
+      out[key] = value;
+    } else if (adapter.supportsParam(name, payload.model)) {
+      out[name] = value;
+    } else {
+      consola.debug(
+        `Dropping '${key}' for ${payload.model} (provider ${adapter.name})`
+      );
+    }
+  }
+  return out;
+}
+
+/**
+ * Wrap a client so every request goes through filterPayload first.
+ */
+export function withSupportedParams(
+  adapter: ProviderAdapter,
+  client: OpenAI
+): OpenAI {
+  const completions = client.chat.completions;
+  return {
+    chat: {
+      completions: {
+        create: (payload: any, ...rest: any[]) =>
+          (completions.create as any)(filterPayload(adapter, payload), ...rest),
+      },
+    },
+  } as OpenAI;
+}
@@ -0,0 +1,468 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import type { ConnectedServer } from "./mcp.js";
+
+/**
+ * Record/replay of model and MCP traffic (--record <dir> / --replay <dir>).
+ *
+ * A recording is two JSONL files:
+ * - openai.jsonl: one { request, response } or { request, chunks } line per chat.completions.create
+ * - mcp.jsonl: one { server, method, params, result | error } line per MCP request
+ *   (tools, resources, prompts), plus the server capabilities seen at connect time
+ *
+ * Replay serves exchanges by matching requests rather than by position, so concurrent
+ * tool calls and sub-agents may finish in a different order than when recorded.
+ */
+
+export const OPENAI_RECORDING_FILE = "openai.jsonl";
+export const MCP_RECORDING_FILE = "mcp.jsonl";
+
+/**
+ * Process exit status used when a replayed run did not match its recording.
+ */
+export const EXIT_REPLAY_DIVERGED = 4;
+
+type LlmExchange = {
+  request: any;
+  response?: any;
+  /**
+   * Raw chunks when the request was streamed.
+   */
+  chunks?: any[];
+  /**
+   * Made for an MCP server's sampling request. Replayed servers never sample, so replay skips these.
+   */
+  sampling?: boolean;
+};
+
+type McpExchange = {
+  server: string;
+  method:
+    | "getServerCapabilities"
+    | "listTools"
+    | "callTool"
+    | "listResources"
+    | "readResource"
+    | "listPrompts"
+    | "getPrompt";
+  params?: any;
+  result?: any;
+  error?: string;
+};
+
+type Recording =
+  | { mode: "record"; dir: string }
+  | {
+      mode: "replay";
+      dir: string;
+      llm: Array<LlmExchange & { used?: boolean }>;
+      mcp: Array<McpExchange & { used?: boolean }>;
+      /**
+       * Divergences seen so far, first one first (reported with later failures).
+       */
+      divergences: string[];
+    };
+
+// One recording per process, set up by the CLI before anything connects
+let active: Recording | undefined;
+
+export function activeRecording(): Recording | undefined {
+  return active;
+}
+
+export function startRecording(dir: string) {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, OPENAI_RECORDING_FILE), "");
+  writeFileSync(join(dir, MCP_RECORDING_FILE), "");
+  active = { mode: "record", dir };
+}
+
+export function startReplay(dir: string) {
+  const llmFile = join(dir, OPENAI_RECORDING_FILE);
+  if (!existsSync(llmFile)) {
+    throw new Error(
+      `No recording found in ${dir} (missing ${OPENAI_RECORDING_FILE})`
+    );
+  }
+  const mcpFile = join(dir, MCP_RECORDING_FILE);
+  active = {
+    mode: "replay",
+    dir,
+    llm: readJsonl(llmFile).filter((e) => !e.sampling),
+    mcp: existsSync(mcpFile) ? readJsonl(mcpFile) : [],
+    divergences: [],
+  };
+}
+
+/**
+ * After a replayed run: every divergence seen, plus recorded exchanges the run never asked for.
+ * Empty when the run matched the recording (or no replay is active).
+ */
+export function replayMismatches(): string[] {
+  if (active?.mode !== "replay") return [];
+  const out = [...active.divergences];
+  const llm = active.llm.filter((e) => !e.used).length;
+  if (llm) out.push(`${llm} recorded model call(s) were not replayed`);
+  const calls = active.mcp.filter((e) => e.method === "callTool" && !e.used);
+  for (const c of calls) {
+    out.push(
+      `recorded tool call ${c.server}/${c.params?.name} was not replayed`
+    );
+  }
+  return out;
+}
+
+function readJsonl(file: string): any[] {
+  return readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((l) => l.trim())
+    .map((l) => JSON.parse(l));
+}
+
+function append(file: string, entry: any) {
+  if (active?.mode !== "record") return;
+  appendFileSync(join(active.dir, file), JSON.stringify(entry) + "\n");
+}
+
+// JSON with sorted object keys, so equal values compare equal regardless of key order
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function parseArgs(raw: any) {
+  if (typeof raw !== "string") return raw ?? {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// The parts of a completion request that decide the response. The date banner changes
+// every run and tool-call arguments are compared as parsed JSON.
+function normalizeRequest(payload: any) {
+  return {
+    model: payload?.model,
+    temperature: payload?.temperature,
+    tool_choice: payload?.tool_choice,
+    stream: !!payload?.stream,
+    tools: (payload?.tools ?? []).map((t: any) => t?.function?.name),
+    messages: (payload?.messages ?? []).map((m: any) => ({
+      role: m?.role,
+      content:
+        m?.role === "system" &&
+        typeof m?.content === "string" &&
+        m.content.startsWith("Thread start date:")
+          ? "Thread start date"
+          : m?.content,
+      tool_call_id: m?.tool_call_id,
+      tool_calls: m?.tool_calls?.map((tc: any) => ({
+        id: tc?.id,
+        name: tc?.function?.name,
+        arguments: parseArgs(tc?.function?.arguments),
+      })),
+    })),
+  };
+}
+
+// Human-readable first difference between a run's request and a recorded one
+function describeRequestDiff(run: any, rec: any): string {
+  for (const key of [
+    "model",
+    "temperature",
+    "tool_choice",
+    "stream",
+    "tools",
+  ]) {
+    if (stableStringify(run[key]) !== stableStringify(rec[key])) {
+      return `${key} differs: run has ${stableStringify(run[key])}, recording has ${stableStringify(rec[key])}`;
+    }
+  }
+  const n = Math.max(run.messages.length, rec.messages.length);
+  for (let i = 0; i < n; i++) {
+    const a = run.messages[i];
+    const b = rec.messages[i];
+    if (stableStringify(a) === stableStringify(b)) continue;
+    if (!a || !b)
+      return `run sent ${run.messages.length} messages, recording has ${rec.messages.length}`;
+    if (a.role !== b.role) {
+      return `message ${i}: role ${a.role} vs recorded ${b.role}`;
+    }
+    const ta = a.tool_calls ?? [];
+    const tb = b.tool_calls ?? [];
+    for (let j = 0; j < Math.max(ta.length, tb.length); j++) {
+      if (ta[j]?.name !== tb[j]?.name) {
+        return `message ${i}: tool call ${j} is ${ta[j]?.name ?? "(none)"}, recording has ${tb[j]?.name ?? "(none)"}`;
+      }
+      if (
+        stableStringify(ta[j].arguments) !== stableStringify(tb[j].arguments)
+      ) {
+        return `message ${i}: arguments of ${ta[j].name} differ: run ${stableStringify(ta[j].arguments)}, recording ${stableStringify(tb[j].arguments)}`;
+      }
+    }
+    return `message ${i} (${a.role}) differs: run ${JSON.stringify(a.content)?.slice(0, 200)}, recording ${JSON.stringify(b.content)?.slice(0, 200)}`;
+  }
+  return "requests differ";
+}
+
+// Number of leading messages two normalized requests share (picks the closest recorded request)
+function sharedPrefix(a: any, b: any): number {
+  let i = 0;
+  while (
+    i < a.messages.length &&
+    i < b.messages.length &&
+    stableStringify(a.messages[i]) === stableStringify(b.messages[i])
+  ) {
+    i++;
+  }
+  return i;
+}
+
+function divergence(message: string): Error {
+  if (active?.mode === "replay") {
+    const first = active.divergences[0];
+    active.divergences.push(message);
+    if (first && first !== message) {
+      message += ` (first divergence: ${first})`;
+    }
+  }
+  return new Error(
+    `Replay diverged from recording in ${active?.dir}: ${message}`
+  );
+}
+
+async function* replayChunks(chunks: any[]) {
+  for (const c of chunks) yield c;
+}
+
+// `stream` is part of the matched request: replaying a streamed recording without --stream
+// (or the reverse) is reported as a divergence.
+function replayCompletion(payload: any) {
+  if (active?.mode !== "replay") throw new Error("Replay is not active");
+  const req = normalizeRequest(payload);
+  const key = stableStringify(req);
+  const unused = active.llm.filter((e) => !e.used);
+  const match = unused.find(
+    (e) => stableStringify(normalizeRequest(e.request)) === key
+  );
+  if (!match) {
+    if (!unused.length) {
+      throw divergence(
+        `run made more model calls than the ${active.llm.length} recorded`
+      );
+    }
+    const closest = unused
+      .map((e) => normalizeRequest(e.request))
+      .reduce((best, r) =>
+        sharedPrefix(req, r) > sharedPrefix(req, best) ? r : best
+      );
+    throw divergence(describeRequestDiff(req, closest));
+  }
+  match.used = true;
+  return match.chunks ? replayChunks(match.chunks) : match.response;
+}
+
+/**
+ * Stand-in for the OpenAI client that serves completions from the recording.
+ */
+export function createReplayOpenAI(): any {
+  return {
+    chat: {
+      completions: {
+        create: async (payload: any) => replayCompletion(payload),
+      },
+    },
+  };
+}
+
+// Message arrays of sampling completions (the provider filter copies the payload, not its messages)
+const samplingMessages = new WeakSet<object>();
+
+/**
+ * Mark a completion payload as made for an MCP sampling request before sending it.
+ */
+export function markSamplingRequest(payload: { messages: object }) {
+  samplingMessages.add(payload.messages);
+}
+
+/**
+ * Wrap an OpenAI client so every completion is appended to the recording.
+ * Streams are passed through and written once fully consumed.
+ */
+export function recordOpenAI<T extends { chat: { completions: any } }>(
+  client: T
+): T {
+  const completions = client.chat.completions;
+  const create = completions.create.bind(completions);
+  completions.create = async (payload: any, ...rest: any[]) => {
+    const response = await create(payload, ...rest);
+    const sampling = samplingMessages.has(payload?.messages)
+      ? { sampling: true }
+      : {};
+    if (!payload?.stream) {
+      append(OPENAI_RECORDING_FILE, {
+        request: payload,
+        response,
+        ...sampling,
+      });
+      return response;
+    }
+    return (async function* () {
+      const chunks: any[] = [];
+      for await (const chunk of response as AsyncIterable<any>) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      append(OPENAI_RECORDING_FILE, { request: payload, chunks, ...sampling });
+    })();
+  };
+  return client;
+}
+
+/**
+ * Wrap a connected server's client so its MCP exchanges are appended to the recording.
+ */
+export function recordServer(server: ConnectedServer): ConnectedServer {
+  const client: any = server.client;
+  append(MCP_RECORDING_FILE, {
+    server: server.name,
+    method: "getServerCapabilities",
+    result: client.getServerCapabilities() ?? {},
+  });
+  for (const method of [
+    "listTools",
+    "callTool",
+    "listResources",
+    "readResource",
+    "listPrompts",
+    "getPrompt",
+  ] as const) {
+    const original = client[method].bind(client);
+    client[method] = async (params?: any, ...rest: any[]) => {
+      try {
+        const result = await original(params, ...rest);
+        append(MCP_RECORDING_FILE, {
+          server: server.name,
+          method,
+          params,
+          result,
+        });
+        return result;
+      } catch (e: any) {
+        const error = e?.message ?? String(e);
+        append(MCP_RECORDING_FILE, {
+          server: server.name,
+          method,
+          params,
+          error,
+        });
+        throw e;
+      }
+    };
+  }
+  return server;
+}
+
+function replayExchange(entry: McpExchange & { used?: boolean }) {
+  if (entry.error !== undefined) throw new Error(entry.error);
+  return entry.result;
+}
+
+/**
+ * Fake ConnectedServer that answers from the recording.
+ */
+export function createReplayServer(name: string): ConnectedServer {
+  if (active?.mode !== "replay") throw new Error("Replay is not active");
+  const rec = active;
+  // Capabilities and lists are static per server: every call gets the first recorded answer
+  const first = (method: McpExchange["method"]) =>
+    rec.mcp.find((e) => e.server === name && e.method === method);
+  const client = {
+    getServerCapabilities: () =>
+      first("getServerCapabilities")?.result ?? { tools: {} },
+    listTools: async () => {
+      const entry = first("listTools");
+      return entry ? replayExchange(entry) : { tools: [] };
+    },
+    listResources: async () => {
+      const entry = first("listResources");
+      return entry ? replayExchange(entry) : { resources: [] };
+    },
+    listPrompts: async () => {
+      const entry = first("listPrompts");
+      return entry ? replayExchange(entry) : { prompts: [] };
+    },
+    getPrompt: async (params: { name: string; arguments?: any }) => {
+      const entry = rec.mcp.find(
+        (e) =>
+          e.server === name &&
+          e.method === "getPrompt" &&
+          stableStringify(e.params) === stableStringify(params)
+      );
+      if (!entry) {
+        throw divergence(
+          `run fetched prompt ${name}/${params?.name} with ${stableStringify(params?.arguments ?? {})}, which the recording never fetched`
+        );
+      }
+      entry.used = true;
+      return replayExchange(entry);
+    },
+    // Reads have no side effects, so one recorded read serves any number of replayed reads
+    readResource: async (params: { uri: string }) => {
+      const entry = rec.mcp.find(
+        (e) =>
+          e.server === name &&
+          e.method === "readResource" &&
+          e.params?.uri === params?.uri
+      );
+      if (!entry) {
+        throw divergence(
+          `run read ${name} resource ${params?.uri}, which the recording never read`
+        );
+      }
+      entry.used = true;
+      return replayExchange(entry);
+    },
+    callTool: async (params: { name: string; arguments?: any }) => {
+      const candidates = rec.mcp.filter(
+        (e) => e.server === name && e.method === "callTool" && !e.used
+      );
+      const args = stableStringify(params?.arguments ?? {});
+      const match = candidates.find(
+        (e) =>
+          e.params?.name === params?.name &&
+          stableStringify(e.params?.arguments ?? {}) === args
+      );
+      if (match) {
+        match.used = true;
+        return replayExchange(match);
+      }
+      const sameName = candidates.find((e) => e.params?.name === params?.name);
+      if (sameName) {
+        throw divergence(
+          `${name}/${params?.name} called with ${args}, recording has ${stableStringify(sameName.params?.arguments ?? {})}`
+        );
+      }
+      throw divergence(
+        candidates.length
+          ? `run called ${name}/${params?.name}, recording has ${candidates.map((e) => e.params?.name).join(", ")} next on ${name}`
+          : `run called ${name}/${params?.name}, recording has no further calls on ${name}`
+      );
+    },
+  };
+  return { name, client: client as any, close: async () => {} };
+}
@@ -0,0 +1,232 @@
+import consola from "consola";
+import chalk from "chalk";
+import { createInterface } from "node:readline/promises";
+import { existsSync } from "node:fs";
+import type { CLIOptions } from "./config.js";
+import type { LoadedConfig } from "../types.js";
+import { createServerPool, setupTools } from "./mcp.js";
+import { loadAgents } from "./agents.js";
+import { chatWithOpenAI, type ChatSession } from "./llm-core.js";
+import { newThread, saveThread, type StoredThread } from "./threads.js";
+import {
+  addUsageChild,
+  createUsageNode,
+  formatUsageSummary,
+  summarizeUsage,
+} from "./usage.js";
+
+const HELP = `
+Slash commands:
+  /agent <name>      switch agent scope (starts a new transcript); /agent with no name clears it
+  /tools             list tools available in the current scope
+  /confirm [on|off]  toggle tool confirmation prompts
+  /roots [dir...]    show MCP roots, or advertise these directories to all servers; /roots reset restores the configured roots
+  /usage [json]      show token usage and cost for this session
+  /save              save the transcript as a thread
+  /new               start a new transcript in the current scope
+  /help              show this help
+  /exit              quit
+`.trim();
+
+// Reads one input line per call; undefined once stdin is closed (Ctrl-D or end of piped input)
+function createLineReader(): {
+  ask: (prompt: string) => Promise<string | undefined>;
+  close: () => void;
+} {
+  if (!process.stdin.isTTY) {
+    // Piped input: one interface for the session, so lines read ahead stay buffered.
+    // Confirmations are declined without a terminal, so nothing else reads stdin.
+    const rl = createInterface({ input: process.stdin, terminal: false });
+    const lines = rl[Symbol.asyncIterator]();
+    return {
+      ask: async () => {
+        const next = await lines.next();
+        return next.done ? undefined : next.value;
+      },
+      close: () => rl.close(),
+    };
+  }
+  return {
+    ask: async (prompt) => {
+      // A fresh interface per question so confirmation prompts (prompts lib) can own stdin during a turn
+      const rl = createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+      try {
+        return await rl.question(prompt);
+      } catch {
+        return undefined; // stdin closed (Ctrl-D)
+      } finally {
+        rl.close();
+      }
+    },
+    close: () => {},
+  };
+}
+
+/**
+ * Interactive REPL: keeps MCP servers connected and the transcript in memory between turns.
+ * Tools are connected once per agent scope and reconnected only when switching agents.
+ */
+export async function runRepl(app: LoadedConfig, opts: CLIOptions) {
+  let thread: StoredThread = newThread("", opts.agent);
+  let session: ChatSession = {
+    messages: thread.messages,
+  };
+  // Each turn becomes a child of the session node, so /usage covers the whole session
+  const usageRoot = createUsageNode("session");
+
+  const connect = async () => {
+    const { agents } = loadAgents(app);
+    const agent = opts.agent ? agents[opts.agent] : undefined;
+    if (opts.agent && !agent) {
+      consola.warn(`Agent '${opts.agent}' not found. Running unscoped.`);
+    }
+    session.pool = createServerPool();
+    session.tools = await setupTools(
+      app,
+      {
+        noTools: opts.noTools,
+        forceRefresh: opts.forceRefresh,
+        pool: session.pool,
+      },
+      agent ? { agentName: opts.agent, agent } : undefined
+    );
+  };
+  const disconnect = async () => {
+    const pool = session.pool;
+    session.tools?.stopWatching();
+    session.tools = undefined;
+    session.pool = undefined;
+    await pool?.close();
+  };
+  const resetTranscript = () => {
+    thread = newThread("", opts.agent);
+    session = { ...session, messages: thread.messages };
+  };
+
+  await connect();
+  const reader = createLineReader();
+  console.log(
+    chalk.gray(
+      `Interactive mode${opts.agent ? ` [agent:${opts.agent}]` : ""}. Type /help for commands, /exit to quit.`
+    )
+  );
+
+  try {
+    for (;;) {
+      const scope = opts.agent ? `agent:${opts.agent}` : "orchestrator";
+      const line = await reader.ask(chalk.cyan(`${scope}> `));
+      if (line === undefined) break;
+      const input = line.trim();
+      if (!input) continue;
+
+      if (input.startsWith("/")) {
+        const [cmd, ...rest] = input.slice(1).split(/\s+/);
+        const arg = rest.join(" ").trim();
+        if (cmd === "exit" || cmd === "quit") break;
+        switch (cmd) {
+          case "help":
+            console.log(HELP);
+            break;
+          case "agent": {
+            const { agents } = loadAgents(app);
+            if (arg && !agents[arg]) {
+              consola.error(
+                `Agent '${arg}' not found. Use --list-agents to see available agents.`
+              );
+              break;
+            }
+            await disconnect();
+            opts.agent = arg || undefined;
+            resetTranscript();
+            await connect();
+            consola.success(
+              arg ? `Switched to agent ${arg}` : "Cleared agent scope"
+            );
+            break;
+          }
+          case "tools": {
+            const names = [...(session.tools?.registry.keys() ?? [])];
+            if (!names.length) console.log("No tools in the current scope.");
+            for (const n of names.sort()) {
+              const entry = session.tools!.registry.get(n)!;
+              console.log(`- ${n} ${chalk.gray(`(${entry.server.name})`)}`);
+            }
+            break;
+          }
+          case "roots": {
+            if (arg) {
+              const dirs = arg === "reset" ? undefined : rest.filter(Boolean);
+              const missing = (dirs ?? []).filter((d) => !existsSync(d));
+              if (missing.length) {
+                consola.error(`No such directory: ${missing.join(", ")}`);
+                break;
+              }
+              // Connected servers get roots/list_changed
+              await session.pool?.setRoots(dirs);
+            }
+            const servers = new Map(
+              [...(session.tools?.registry.values() ?? [])].map((e) => [
+                e.server.name,
+                e.server,
+              ])
+            );
+            if (!servers.size) console.log("No servers in the current scope.");
+            for (const [name, s] of servers) {
+              const roots = s.roots?.list() ?? [];
+              console.log(
+                `${name}: ${roots.map((r) => r.uri).join(", ") || "-"}`
+              );
+            }
+            break;
+          }
+          case "confirm":
+            if (arg === "on") opts.noConfirmations = false;
+            else if (arg === "off") opts.noConfirmations = true;
+            else opts.noConfirmations = !opts.noConfirmations;
+            consola.info(
+              `Tool confirmations ${opts.noConfirmations ? "off" : "on"}`
+            );
+            break;
+          case "usage": {
+            const summary = summarizeUsage(usageRoot);
+            console.log(
+              arg === "json"
+                ? JSON.stringify(summary, null, 2)
+                : formatUsageSummary(summary)
+            );
+            break;
+          }
+          case "save":
+            await saveThread(thread);
+            consola.success(`Saved thread ${thread.id}`);
+            break;
+          case "new":
+            resetTranscript();
+            consola.info("Started a new transcript");
+            break;
+          default:
+            consola.error(`Unknown command /${cmd}. Type /help for commands.`);
+        }
+        continue;
+      }
+
+      if (!thread.title) {
+        thread.title = input.replace(/\s+/g, " ").slice(0, 60);
+      }
+      try {
+        const result = await chatWithOpenAI(app, input, opts, 0, session, {
+          usage: addUsageChild(usageRoot, opts.agent ?? "orchestrator"),
+        });
+        if (!opts.stream) console.log(result);
+      } catch (e: any) {
+        consola.error(e?.message || String(e));
+      }
+    }
+  } finally {
+    reader.close();
+    await disconnect();
+  }
+}
@@ -0,0 +1,124 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerConfig } from "../types.js";
+
+/**
+ * Timeouts, retries and circuit breaking for MCP tool calls, configured per server.
+ */
+export type CallPolicy = {
+  /**
+   * Per-attempt timeout; the MCP SDK default (60 s) applies when unset.
+   */
+  timeoutMs?: number;
+  retries: number;
+  backoffMs: number;
+};
+
+export const DEFAULT_RETRY_BACKOFF_MS = 500;
+
+/**
+ * Call settings for one tool. Retries only apply to idempotent tools.
+ */
+export function callPolicy(
+  conf: ServerConfig | undefined,
+  idempotent: boolean
+): CallPolicy {
+  return {
+    timeoutMs: conf?.call_timeout_seconds
+      ? conf.call_timeout_seconds * 1000
+      : undefined,
+    retries: idempotent ? Math.max(0, Math.floor(conf?.retries ?? 0)) : 0,
+    backoffMs: conf?.retry_backoff_ms ?? DEFAULT_RETRY_BACKOFF_MS,
+  };
+}
+
+export function isTimeoutError(err: any): boolean {
+  return err?.code === ErrorCode.RequestTimeout;
+}
+
+/**
+ * Run `attempt` until it succeeds or the policy's retries are used up, doubling the
+ * backoff after each failure. The last error is rethrown with `attempts` set on it.
+ * An aborted `signal` stops retrying.
+ */
+export async function withRetries<T>(
+  policy: CallPolicy,
+  attempt: () => Promise<T>,
+  onRetry?: (err: any, nextAttempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let n = 1; ; n++) {
+    try {
+      return await attempt();
+    } catch (err: any) {
+      if (n > policy.retries || signal?.aborted) {
+        if (err && typeof err === "object") err.attempts = n;
+        throw err;
+      }
+      const delay = policy.backoffMs * 2 ** (n - 1);
+      onRetry?.(err, n + 1, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Consecutive tool call failures per server for one run. A server whose count reaches its
+ * circuit_breaker_failures setting is disabled for the rest of the run.
+ */
+export type CircuitBreakers = {
+  isOpen: (server: string, conf?: ServerConfig) => boolean;
+  /**
+   * Record a call outcome; returns true when this failure opened the circuit.
+   */
+  record: (server: string, ok: boolean, conf?: ServerConfig) => boolean;
+};
+
+export function createCircuitBreakers(): CircuitBreakers {
+  const failures = new Map<string, number>();
+  const threshold = (conf?: ServerConfig) =>
+    conf?.circuit_breaker_failures && conf.circuit_breaker_failures > 0
+      ? conf.circuit_breaker_failures
+      : Infinity;
+  const isOpen = (server: string, conf?: ServerConfig) =>
+    (failures.get(server) ?? 0) >= threshold(conf);
+  return {
+    isOpen,
+    record: (server, ok, conf) => {
+      if (isOpen(server, conf)) return false;
+      failures.set(server, ok ? 0 : (failures.get(server) ?? 0) + 1);
+      return isOpen(server, conf);
+    },
+  };
+}
+
+/**
+ * Tool result for a failed call: a JSON error object the model can act on.
+ */
+export function toolErrorResult(error: {
+  type:
+    | "timeout"
+    | "call_failed"
+    | "server_unavailable"
+    | "cancelled"
+    | "denied";
+  tool: string;
+  server: string;
+  message: string;
+  attempts?: number;
+  /**
+   * The tool rule that refused the call.
+   */
+  rule?: string;
+}): string {
+  return JSON.stringify({
+    error: {
+      ...error,
+      // A disabled server fails again for the rest of the run; a cancelled call was the user's
+      // choice; a denied call fails again unless its arguments change
+      retryable:
+        error.type !== "server_unavailable" &&
+        error.type !== "cancelled" &&
+        error.type !== "denied",
+    },
+  });
+}
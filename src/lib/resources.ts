@@ -0,0 +1,121 @@
+import type { AgentServerPolicy } from "../types.js";
+import type { ConnectedServer, ToolRegistryEntry } from "./mcp.js";
+
+/**
+ * MCP resources exposed to agents as two virtual tools per server:
+ * list_resources_<server> and read_resource_<server>.
+ * include_resources / exclude_resources on the agent's server policy filter by URI or name.
+ */
+
+// OpenAI function names allow [a-zA-Z0-9_-] and at most 64 characters
+function toolSafe(name: string) {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+export function resourceAllowed(
+  resource: { uri: string; name?: string },
+  policy?: AgentServerPolicy
+): boolean {
+  const matches = (list: string[]) =>
+    list.includes(resource.uri) ||
+    (!!resource.name && list.includes(resource.name));
+  if (policy?.exclude_resources?.length && matches(policy.exclude_resources)) {
+    return false;
+  }
+  if (policy?.include_resources?.length) {
+    return matches(policy.include_resources);
+  }
+  return true;
+}
+
+/**
+ * One line per resource: uri, name, mime type and description.
+ */
+export function formatResource(r: any): string {
+  const name = r.name && r.name !== r.uri ? ` (${r.name})` : "";
+  const mime = r.mimeType ? ` [${r.mimeType}]` : "";
+  return `- ${r.uri}${name}${mime}${r.description ? `: ${r.description}` : ""}`;
+}
+
+// readResource contents -> tool result content (binary blobs are summarized, not inlined)
+function contentsToToolResult(contents: any[]) {
+  return {
+    content: (contents ?? []).map((c: any) =>
+      typeof c?.text === "string"
+        ? { type: "text", text: c.text }
+        : {
+            type: "text",
+            text: `[binary resource ${c?.uri}${c?.mimeType ? ` (${c.mimeType})` : ""}, ${Math.floor(((c?.blob?.length ?? 0) * 3) / 4)} bytes]`,
+          }
+    ),
+  };
+}
+
+/**
+ * Registry entries for a server's resource tools, filtered by the agent's policy.
+ */
+export function resourceTools(
+  server: ConnectedServer,
+  policy?: AgentServerPolicy
+): ToolRegistryEntry[] {
+  const suffix = toolSafe(server.name);
+  const client: any = server.client;
+  return [
+    {
+      name: `list_resources_${suffix}`.slice(0, 64),
+      description: `List the resources (documents, files, records) offered by MCP server "${server.name}". Read one with read_resource_${suffix}.`,
+      parameters: { type: "object", properties: {} },
+      server,
+      idempotent: true,
+      invoke: async (_args, options) => {
+        const res = await client.listResources(undefined, options);
+        const visible = (res?.resources ?? []).filter((r: any) =>
+          resourceAllowed(r, policy)
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: visible.length
+                ? visible.map(formatResource).join("\n")
+                : "No resources available.",
+            },
+          ],
+        };
+      },
+    },
+    {
+      name: `read_resource_${suffix}`.slice(0, 64),
+      description: `Read a resource of MCP server "${server.name}" by URI (see list_resources_${suffix}).`,
+      parameters: {
+        type: "object",
+        properties: {
+          uri: { type: "string", description: "URI of the resource to read." },
+        },
+        required: ["uri"],
+      },
+      server,
+      idempotent: true,
+      invoke: async (args, options) => {
+        const uri = typeof args?.uri === "string" ? args.uri.trim() : "";
+        if (!uri) throw new Error(`read_resource requires a "uri" string`);
+        let resource: { uri: string; name?: string } = { uri };
+        // Rules may refer to resource names; look the name up when the URI alone does not decide
+        if (
+          !resourceAllowed(resource, policy) ||
+          policy?.exclude_resources?.length
+        ) {
+          const listed = await client.listResources(undefined, options);
+          resource =
+            (listed?.resources ?? []).find((r: any) => r.uri === uri) ??
+            resource;
+        }
+        if (!resourceAllowed(resource, policy)) {
+          throw new Error(`resource ${uri} is not available to this agent`);
+        }
+        const res = await client.readResource({ uri }, options);
+        return contentsToToolResult(res?.contents);
+      },
+    },
+  ];
+}
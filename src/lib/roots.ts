@@ -0,0 +1,65 @@
+import { basename, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ListRootsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { AgentConfig, ServerConfig } from "../types.js";
+
+/**
+ * MCP roots: the directories a server may work in, answered on roots/list.
+ * The agent's `roots` win over the server's; both default to the current working directory.
+ */
+export type Root = { uri: string; name?: string };
+
+/**
+ * Configured root paths for a server in an agent scope (undefined: current working directory).
+ */
+export function rootsSpec(
+  conf: ServerConfig,
+  agent?: AgentConfig
+): string[] | undefined {
+  return agent?.roots ?? conf.roots;
+}
+
+// Paths resolve against the current working directory; file:// URIs are used as given
+function toRoot(path: string): Root {
+  if (path.startsWith("file://")) return { uri: path };
+  const abs = resolve(path);
+  return { uri: pathToFileURL(abs).href, name: basename(abs) || abs };
+}
+
+export function resolveRoots(spec?: string[]): Root[] {
+  return (spec?.length ? spec : [process.cwd()]).map(toRoot);
+}
+
+/**
+ * Roots of one server connection. `set` replaces them (undefined restores the configured
+ * roots) and notifies the server when they changed.
+ */
+export type RootsHandle = {
+  list: () => Root[];
+  attach: (client: Client) => void;
+  set: (spec?: string[]) => Promise<void>;
+};
+
+export function createRoots(configured?: string[]): RootsHandle {
+  let current = resolveRoots(configured);
+  const clients = new Set<Client>();
+  return {
+    list: () => current,
+    // Call before connecting: servers may ask for roots right after initialization
+    attach: (client) => {
+      clients.add(client);
+      client.setRequestHandler(ListRootsRequestSchema, async () => ({
+        roots: current,
+      }));
+    },
+    set: async (spec) => {
+      const next = resolveRoots(spec ?? configured);
+      if (JSON.stringify(next) === JSON.stringify(current)) return;
+      current = next;
+      await Promise.allSettled(
+        [...clients].map((c) => c.sendRootsListChanged())
+      );
+    },
+  };
+}
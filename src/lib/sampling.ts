@@ -0,0 +1,220 @@
+import consola from "consola";
+import prompts from "prompts";
+import { appendFileSync, mkdirSync } from "node:fs";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  CreateMessageRequestSchema,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  AppConfig,
+  ModelPrice,
+  SamplingPolicy,
+  ServerConfig,
+} from "../types.js";
+import { checkRunBudget, type RunBudget } from "./budget.js";
+import { ALT_CONFIG_DIR } from "./config.js";
+import { confirmationLock } from "./concurrency.js";
+import { makeLLMClient } from "./llm-core.js";
+import { markSamplingRequest } from "./recording.js";
+import { canPromptOnStdin } from "./stdin.js";
+import { recordUsage, type UsageNode } from "./usage.js";
+
+/**
+ * MCP sampling: servers with `allow_sampling` may ask the host to run a completion
+ * (sampling/createMessage) on the configured model. Each request is appended to
+ * ~/.llm/sampling.jsonl with the requesting server.
+ */
+
+/**
+ * The running chat's LLM client and bookkeeping; sampling uses its model (including --model),
+ * recording/replay, usage and budget.
+ */
+export type SamplingContext = {
+  client: ReturnType<typeof makeLLMClient>["client"];
+  model: string;
+  usage?: UsageNode;
+  budget?: RunBudget;
+  pricing?: Record<string, ModelPrice>;
+};
+
+// Context of the top-level run in progress; servers are shared by its whole delegation tree
+let activeContext: SamplingContext | undefined;
+
+/**
+ * Route sampling requests to `context` until the returned function is called.
+ */
+export function useSamplingContext(context: SamplingContext): () => void {
+  const previous = activeContext;
+  activeContext = context;
+  return () => {
+    if (activeContext === context) activeContext = previous;
+  };
+}
+
+export const SAMPLING_LOG_FILE = `${ALT_CONFIG_DIR}/sampling.jsonl`;
+export const DEFAULT_SAMPLING_MAX_TOKENS = 1024;
+
+/**
+ * Sampling policy of a server, or undefined when it may not sample.
+ */
+export function samplingPolicy(conf: ServerConfig): SamplingPolicy | undefined {
+  if (!conf.allow_sampling) return undefined;
+  return conf.allow_sampling === true ? {} : conf.allow_sampling;
+}
+
+// Tokens used by each server's sampling requests in this process (for total_tokens)
+const usedTokens = new Map<string, number>();
+
+function logSampling(entry: Record<string, any>) {
+  try {
+    mkdirSync(ALT_CONFIG_DIR, { recursive: true });
+    appendFileSync(
+      SAMPLING_LOG_FILE,
+      JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n"
+    );
+  } catch (e: any) {
+    consola.debug(`Cannot write ${SAMPLING_LOG_FILE}: ${e?.message ?? e}`);
+  }
+}
+
+// Sampling message content -> chat completions content
+function toChatContent(content: any) {
+  if (content?.type === "text") return content.text ?? "";
+  if (content?.type === "image") {
+    return [
+      {
+        type: "image_url",
+        image_url: { url: `data:${content.mimeType};base64,${content.data}` },
+      },
+    ];
+  }
+  return `[${content?.type ?? "unknown"} content omitted]`;
+}
+
+function previewMessages(params: any) {
+  const lines = (params.messages ?? []).map(
+    (m: any) =>
+      `  ${m.role}: ${m.content?.type === "text" ? m.content.text : `[${m.content?.type}]`}`
+  );
+  if (params.systemPrompt) lines.unshift(`  system: ${params.systemPrompt}`);
+  return lines.join("\n");
+}
+
+/**
+ * Answer the server's sampling/createMessage requests. The client must declare the sampling capability.
+ */
+export function handleSampling(
+  client: Client,
+  server: string,
+  policy: SamplingPolicy,
+  app: Pick<AppConfig, "llm">
+) {
+  client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+    const params: any = request.params;
+    // Outside a chat run (e.g. listing server prompts) the configured model is used
+    const context: SamplingContext = activeContext ?? makeLLMClient(app);
+    const { client, model } = context;
+    const maxTokens = Math.min(
+      params.maxTokens ?? DEFAULT_SAMPLING_MAX_TOKENS,
+      policy.max_tokens ?? DEFAULT_SAMPLING_MAX_TOKENS
+    );
+    const log = (outcome: string, extra: Record<string, any> = {}) =>
+      logSampling({
+        server,
+        model,
+        messages: params.messages?.length ?? 0,
+        max_tokens: maxTokens,
+        outcome,
+        ...extra,
+      });
+
+    const runExhausted = context.budget && checkRunBudget(context.budget);
+    if (runExhausted) {
+      log("refused", { reason: runExhausted });
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Sampling refused: the run's ${runExhausted}`
+      );
+    }
+    const used = usedTokens.get(server) ?? 0;
+    if (policy.total_tokens !== undefined && used >= policy.total_tokens) {
+      log("refused", { reason: "total_tokens exhausted" });
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Sampling budget of ${policy.total_tokens} tokens for "${server}" is used up`
+      );
+    }
+
+    if (policy.confirm) {
+      // Without a terminal (or once stdin was read as an attachment) there is nobody to ask,
+      // so the request is declined
+      const ans: any = !canPromptOnStdin()
+        ? undefined
+        : await confirmationLock(() =>
+            (prompts as any)({
+              type: "confirm",
+              name: "ok",
+              message: `MCP server "${server}" asks to run ${model} (max ${maxTokens} tokens) on:\n${previewMessages(params)}\nAllow?`,
+              initial: false,
+              // stdout may carry --output json/jsonl
+              stdout: process.stderr,
+            })
+          );
+      if (!ans?.ok) {
+        log("declined");
+        // -1: "user rejected sampling request" in the MCP spec
+        throw new McpError(-1, "User rejected sampling request");
+      }
+    }
+
+    const messages: any[] = params.systemPrompt
+      ? [{ role: "system", content: params.systemPrompt }]
+      : [];
+    for (const m of params.messages ?? []) {
+      messages.push({ role: m.role, content: toChatContent(m.content) });
+    }
+    const payload = {
+      model,
+      messages,
+      max_tokens: maxTokens,
+      ...(params.temperature !== undefined
+        ? { temperature: params.temperature }
+        : {}),
+      ...(params.stopSequences?.length ? { stop: params.stopSequences } : {}),
+    };
+    markSamplingRequest(payload);
+    try {
+      const res: any = await client.chat.completions.create(payload, {
+        signal: context.budget?.deadline,
+      });
+      const choice = res?.choices?.[0];
+      const total = res?.usage?.total_tokens ?? 0;
+      usedTokens.set(server, used + total);
+      recordUsage(context.usage, res?.usage, model, context.pricing);
+      if (context.budget) context.budget.tokensUsed += total;
+      log("completed", { usage: res?.usage });
+      consola.info(
+        `Sampling for "${server}": ${model}, ${total} tokens (${messages.length} messages)`
+      );
+      return {
+        model: res?.model ?? model,
+        role: "assistant" as const,
+        content: {
+          type: "text" as const,
+          text: choice?.message?.content ?? "",
+        },
+        stopReason:
+          choice?.finish_reason === "length"
+            ? "maxTokens"
+            : choice?.finish_reason === "stop"
+              ? "endTurn"
+              : choice?.finish_reason,
+      };
+    } catch (e: any) {
+      log("failed", { error: e?.message ?? String(e) });
+      throw e;
+    }
+  });
+}
@@ -0,0 +1,110 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, resolve } from "node:path";
+import { parseEnv } from "node:util";
+
+/**
+ * Secret references in config files: `${env:NAME}` and `${file:path}` in any string field
+ * are replaced on load, so the config itself can be committed. Resolved values are
+ * remembered so listings can print them masked.
+ */
+
+const REFERENCE = /\$\{(env|file):([^}]+)\}/g;
+const MASK = "****";
+// Shorter values ("1", "true", a port) are not secrets and would mask unrelated text
+const MIN_SECRET_LENGTH = 8;
+
+// Values substituted into the config in this process
+const secretValues = new Set<string>();
+
+// Relative paths resolve against the config file's directory; "~/" is the home directory
+function configPath(path: string, baseDir: string) {
+  if (path === "~" || path.startsWith("~/")) return homedir() + path.slice(1);
+  return isAbsolute(path) ? path : resolve(baseDir, path);
+}
+
+function resolveReference(
+  kind: string,
+  ref: string,
+  field: string,
+  baseDir: string
+): string {
+  if (kind === "env") {
+    const value = process.env[ref.trim()];
+    if (value === undefined) {
+      throw new Error(
+        `Config field "${field}" references \${env:${ref}}, but ${ref.trim()} is not set`
+      );
+    }
+    return value;
+  }
+  const path = configPath(ref.trim(), baseDir);
+  if (!existsSync(path)) {
+    throw new Error(
+      `Config field "${field}" references \${file:${ref}}, but ${path} does not exist`
+    );
+  }
+  // Secret files usually end with a newline that is not part of the value
+  return readFileSync(path, "utf-8").replace(/\r?\n$/, "");
+}
+
+/**
+ * Replace secret references in every string of `value`, in place for objects and arrays.
+ * `field` is the dotted path used in error messages.
+ */
+export function interpolateConfig(
+  value: any,
+  baseDir: string,
+  field = ""
+): any {
+  if (typeof value === "string") {
+    return value.replace(REFERENCE, (_m, kind: string, ref: string) => {
+      const resolved = resolveReference(kind, ref, field, baseDir);
+      if (resolved.length >= MIN_SECRET_LENGTH) secretValues.add(resolved);
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    value.forEach((v, i) => {
+      value[i] = interpolateConfig(v, baseDir, `${field}[${i}]`);
+    });
+    return value;
+  }
+  if (value && typeof value === "object") {
+    for (const key of Object.keys(value)) {
+      value[key] = interpolateConfig(
+        value[key],
+        baseDir,
+        field ? `${field}.${key}` : key
+      );
+    }
+  }
+  return value;
+}
+
+/**
+ * Load a .env file into process.env. Variables already set in the environment win.
+ */
+export function loadEnvFile(path: string, baseDir: string) {
+  const file = configPath(path, baseDir);
+  if (!existsSync(file)) {
+    throw new Error(`env_file ${file} does not exist`);
+  }
+  const vars = parseEnv(readFileSync(file, "utf-8"));
+  for (const [name, value] of Object.entries(vars)) {
+    if (process.env[name] === undefined) process.env[name] = value;
+  }
+}
+
+/**
+ * `text` with every value substituted from a secret reference (of at least 8 characters)
+ * replaced by ****.
+ */
+export function maskSecrets(text: string): string {
+  let masked = text;
+  // Longest first, so a secret containing another is masked whole
+  for (const secret of [...secretValues].sort((a, b) => b.length - a.length)) {
+    masked = masked.split(secret).join(MASK);
+  }
+  return masked;
+}
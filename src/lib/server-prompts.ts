@@ -0,0 +1,192 @@
+import consola from "consola";
+import type { AgentConfig, AppConfig } from "../types.js";
+import { connectServer, serverTransport } from "./mcp.js";
+import { loadAgents } from "./agents.js";
+
+/**
+ * Prompts published by MCP servers (prompts/list, prompts/get), addressed as "<server>/<prompt>".
+ */
+export type ServerPrompt = {
+  server: string;
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required?: boolean }>;
+};
+
+/**
+ * Prompts of every enabled server that advertises the prompts capability.
+ * Servers that fail to connect are skipped with a warning.
+ */
+export async function listServerPrompts(
+  app: AppConfig
+): Promise<ServerPrompt[]> {
+  const out: ServerPrompt[] = [];
+  const servers = Object.entries(app.mcpServers || {}).filter(
+    ([, s]) => s.enabled !== false && serverTransport(s)
+  );
+  for (const [name, conf] of servers) {
+    let s;
+    try {
+      s = await connectServer(name, conf, app);
+      if (!s.client.getServerCapabilities()?.prompts) continue;
+      const res = await s.client.listPrompts();
+      for (const p of res?.prompts ?? []) {
+        out.push({
+          server: name,
+          name: p.name,
+          description: p.description,
+          arguments: p.arguments ?? [],
+        });
+      }
+    } catch (err: any) {
+      consola.warn(
+        `Failed to list prompts of "${name}": ${err?.message ?? String(err)}`
+      );
+    } finally {
+      await s?.close();
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse prompt arguments given after the prompt name: `key=value` pairs, with bare
+ * values filling the declared arguments in order.
+ */
+export function parsePromptArgs(
+  tokens: string[],
+  declared: ServerPrompt["arguments"]
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  const positional: string[] = [];
+  for (const t of tokens) {
+    const eq = t.indexOf("=");
+    if (eq > 0) out[t.slice(0, eq)] = t.slice(eq + 1);
+    else positional.push(t);
+  }
+  for (const a of declared) {
+    if (out[a.name] === undefined && positional.length) {
+      out[a.name] = positional.shift()!;
+    }
+  }
+  // Extra bare words extend the last declared argument (e.g. a free-text topic)
+  const last = declared[declared.length - 1];
+  if (positional.length && last) {
+    out[last.name] = [out[last.name], ...positional].filter(Boolean).join(" ");
+  }
+  return out;
+}
+
+// prompts/get messages -> one query text (a lone user message is passed through as-is)
+function renderPromptMessages(messages: any[]): string {
+  const text = (content: any): string => {
+    if (content?.type === "text") return content.text ?? "";
+    if (content?.type === "resource") {
+      return content.resource?.text ?? `[resource ${content.resource?.uri}]`;
+    }
+    return `[${content?.type ?? "unknown"} content omitted]`;
+  };
+  if (messages.length === 1 && messages[0]?.role === "user") {
+    return text(messages[0].content);
+  }
+  return messages
+    .map(
+      (m) =>
+        `${m.role === "assistant" ? "Assistant" : "User"}: ${text(m.content)}`
+    )
+    .join("\n\n");
+}
+
+/**
+ * Fetch "<server>/<prompt>" with the given argument tokens and render it as a query.
+ * Throws with the declared arguments when required ones are missing.
+ */
+export async function getServerPrompt(
+  app: AppConfig,
+  qualified: string,
+  argTokens: string[]
+): Promise<{ server: string; text: string }> {
+  const slash = qualified.indexOf("/");
+  const server = qualified.slice(0, slash);
+  const name = qualified.slice(slash + 1);
+  const conf = app.mcpServers?.[server];
+  if (!conf || conf.enabled === false) {
+    throw new Error(
+      `Prompt '${qualified}': no enabled MCP server named '${server}'`
+    );
+  }
+  const s = await connectServer(server, conf, app);
+  try {
+    const listed = await s.client.listPrompts();
+    const prompt = (listed?.prompts ?? []).find((p: any) => p.name === name);
+    if (!prompt) {
+      throw new Error(
+        `Prompt '${qualified}' not found. Use --list-prompts to see available prompts.`
+      );
+    }
+    const declared = prompt.arguments ?? [];
+    const args = parsePromptArgs(argTokens, declared);
+    const missing = declared.filter((a: any) => a.required && !args[a.name]);
+    if (missing.length) {
+      const usage = declared
+        .map(
+          (a: any) => `${a.name}=${a.required ? "<required>" : "<optional>"}`
+        )
+        .join(" ");
+      throw new Error(
+        `Prompt '${qualified}' is missing ${missing.map((a: any) => a.name).join(", ")}. Usage: p ${qualified} ${usage}`
+      );
+    }
+    const res = await s.client.getPrompt({ name, arguments: args });
+    return { server, text: renderPromptMessages(res?.messages ?? []) };
+  } finally {
+    await s.close();
+  }
+}
+
+const SERVER_AGENT_PREFIX = "server:";
+
+// Full access to one server; exists only in the process that runs it
+function serverAgent(server: string): AgentConfig {
+  return {
+    description: `Runs prompts of MCP server "${server}" with its tools.`,
+    servers: { [server]: {} },
+  };
+}
+
+/**
+ * Agent scope for running a server prompt: an agent that already has the server
+ * (preferring one scoped to that server alone), else a transient agent with full access to it.
+ */
+export function agentForServer(
+  app: AppConfig,
+  server: string
+): { name: string; transient?: AgentConfig } {
+  const { agents } = loadAgents(app);
+  const candidates = Object.entries(agents).filter(([, a]) =>
+    Object.prototype.hasOwnProperty.call(a.servers ?? {}, server)
+  );
+  const sole = candidates.find(
+    ([, a]) => Object.keys(a.servers ?? {}).length === 1
+  );
+  const chosen = sole ?? candidates[0];
+  if (chosen) return { name: chosen[0] };
+  return {
+    name: `${SERVER_AGENT_PREFIX}${server}`,
+    transient: serverAgent(server),
+  };
+}
+
+/**
+ * The transient agent behind a "server:<name>" scope, rebuilt when a thread started by a
+ * server prompt is resumed. Undefined for other names, configured agents and unknown servers.
+ */
+export function transientServerAgent(
+  app: AppConfig,
+  agentName: string
+): AgentConfig | undefined {
+  if (!agentName.startsWith(SERVER_AGENT_PREFIX)) return undefined;
+  if (loadAgents(app).agents[agentName]) return undefined;
+  const server = agentName.slice(SERVER_AGENT_PREFIX.length);
+  return app.mcpServers[server] ? serverAgent(server) : undefined;
+}
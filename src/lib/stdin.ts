@@ -0,0 +1,106 @@
+import { fstatSync } from "node:fs";
+import { StringDecoder } from "node:string_decoder";
+import { fileTypeFromBuffer } from "file-type";
+
+export const DEFAULT_STDIN_MAX_BYTES = 200_000;
+
+// Detected types that are still plain text and safe to inline
+const TEXTUAL_MIME = new Set(["application/xml", "image/svg+xml"]);
+
+export type StdinAttachment = {
+  text: string;
+  /**
+   * Bytes read; reading stops shortly after maxBytes, so this is a lower bound when truncated.
+   */
+  bytes: number;
+  truncated: boolean;
+};
+
+// Set once readStdin has taken stdin; it cannot answer prompts after that
+let stdinConsumed = false;
+
+/**
+ * Whether confirmation prompts can be asked on stdin: it is a terminal that has not been
+ * read as an attachment. Otherwise there is nobody to ask and callers decline.
+ */
+export function canPromptOnStdin(): boolean {
+  return !!process.stdin.isTTY && !stdinConsumed;
+}
+
+/**
+ * Whether stdin is a pipe or a redirected file. A terminal, /dev/null, a socket or an
+ * inherited descriptor a parent never closes is not read unless asked for (`-` or --stdin).
+ */
+export function stdinIsPiped(): boolean {
+  try {
+    const stat = fstatSync(0);
+    return stat.isFIFO() || stat.isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read stdin until EOF or until more than `maxBytes` have arrived.
+ */
+export async function readStdin(maxBytes: number): Promise<Buffer> {
+  stdinConsumed = true;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of process.stdin) {
+    const buf = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    chunks.push(buf);
+    size += buf.length;
+    // Enough to know the input is truncated; leaving the loop destroys the stream
+    if (size > maxBytes) break;
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Turn piped stdin into a text attachment.
+ * - Stdin is read only when it is a pipe or file, or when `explicit` (`-` or --stdin).
+ * - Binary input (sniffed via file-type, or containing NUL bytes) is rejected with a descriptive error.
+ * - Input larger than maxBytes is truncated on a character boundary; the attachment is marked as truncated.
+ */
+export async function readStdinAttachment(
+  maxBytes = DEFAULT_STDIN_MAX_BYTES,
+  explicit = false
+): Promise<StdinAttachment | undefined> {
+  if (!explicit && !stdinIsPiped()) return undefined;
+  const buf = await readStdin(maxBytes);
+  if (!buf.length) return undefined;
+
+  const detected = await fileTypeFromBuffer(buf);
+  if (detected && !TEXTUAL_MIME.has(detected.mime)) {
+    throw new Error(
+      `Piped stdin looks like binary data (${detected.mime}, ${buf.length} bytes). Only text input is supported.`
+    );
+  }
+  if (buf.subarray(0, 8192).includes(0)) {
+    throw new Error(
+      `Piped stdin contains NUL bytes (${buf.length} bytes); refusing to send binary data to the model.`
+    );
+  }
+
+  const truncated = buf.length > maxBytes;
+  // write() without end() holds back a character split by the cut
+  const text = truncated
+    ? new StringDecoder("utf8").write(buf.subarray(0, maxBytes))
+    : buf.toString("utf-8");
+  return { text, bytes: buf.length, truncated };
+}
+
+/**
+ * Render an attachment as a clearly delimited block appended to the user query.
+ */
+export function formatStdinAttachment(att: StdinAttachment): string {
+  const size = att.truncated
+    ? `truncated to ${Buffer.byteLength(att.text)} bytes`
+    : `${att.bytes} bytes`;
+  return [
+    `--- BEGIN STDIN ATTACHMENT (${size}) ---`,
+    att.text.replace(/\n$/, ""),
+    `--- END STDIN ATTACHMENT ---`,
+  ].join("\n");
+}
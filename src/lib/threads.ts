@@ -0,0 +1,96 @@
+import { mkdirSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import { JSONFilePreset } from "lowdb/node";
+import { ALT_CONFIG_DIR } from "./config.js";
+
+/**
+ * A persisted conversation thread. `messages` is the full transcript as sent to
+ * the model (date banner, system prompt, user, assistant and tool messages).
+ */
+export type StoredThread = {
+  id: string;
+  /**
+   * Agent scope the thread was started with. Resuming a thread reuses it.
+   */
+  agent?: string;
+  /**
+   * Short preview of the first user message.
+   */
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: any[];
+};
+
+type ThreadsDb = { threads: StoredThread[] };
+
+export const THREADS_FILE = `${ALT_CONFIG_DIR}/threads.json`;
+
+async function openThreadsDb() {
+  mkdirSync(ALT_CONFIG_DIR, { recursive: true });
+  return JSONFilePreset<ThreadsDb>(THREADS_FILE, { threads: [] });
+}
+
+/**
+ * Create a fresh (unsaved) thread for a top-level run.
+ */
+export function newThread(query: string, agent?: string): StoredThread {
+  const now = new Date().toISOString();
+  const title = query.replace(/\s+/g, " ").trim().slice(0, 60);
+  return {
+    id: randomUUID().slice(0, 8),
+    agent,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+}
+
+/**
+ * Insert or replace a thread by id and bump its updatedAt timestamp.
+ */
+export async function saveThread(thread: StoredThread): Promise<void> {
+  const db = await openThreadsDb();
+  thread.updatedAt = new Date().toISOString();
+  await db.update(({ threads }) => {
+    const idx = threads.findIndex((t) => t.id === thread.id);
+    if (idx >= 0) threads[idx] = thread;
+    else threads.push(thread);
+  });
+}
+
+export async function getThread(id: string): Promise<StoredThread | undefined> {
+  const db = await openThreadsDb();
+  return db.data.threads.find((t) => t.id === id);
+}
+
+/**
+ * Most recently updated thread (used by the `c` continuation command).
+ */
+export async function getLatestThread(): Promise<StoredThread | undefined> {
+  const threads = await listThreads();
+  return threads[0];
+}
+
+/**
+ * All threads, most recently updated first.
+ */
+export async function listThreads(): Promise<StoredThread[]> {
+  const db = await openThreadsDb();
+  return [...db.data.threads].sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
+
+/**
+ * Delete a thread by id. Returns false when no such thread exists.
+ */
+export async function deleteThread(id: string): Promise<boolean> {
+  const db = await openThreadsDb();
+  const before = db.data.threads.length;
+  await db.update((data) => {
+    data.threads = data.threads.filter((t) => t.id !== id);
+  });
+  return db.data.threads.length !== before;
+}
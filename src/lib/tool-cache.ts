@@ -0,0 +1,90 @@
+import { mkdirSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { JSONFilePreset } from "lowdb/node";
+import { ALT_CONFIG_DIR } from "./config.js";
+import type { ServerConfig } from "../types.js";
+
+/**
+ * Tool list of one server as last reported by listTools.
+ * `hash` identifies the server config it was fetched with; a changed config is a cache miss.
+ */
+export type CachedServerTools = {
+  hash: string;
+  fetchedAt: string;
+  tools: any[];
+  /**
+   * Server capabilities from the initialize handshake (e.g. whether it offers resources).
+   */
+  capabilities: Record<string, any>;
+};
+
+type ToolCacheDb = { servers: Record<string, CachedServerTools> };
+
+export const TOOL_CACHE_FILE = `${ALT_CONFIG_DIR}/tool-cache.json`;
+export const DEFAULT_TOOL_CACHE_TTL_SECONDS = 3600;
+
+async function openToolCacheDb() {
+  mkdirSync(ALT_CONFIG_DIR, { recursive: true });
+  return JSONFilePreset<ToolCacheDb>(TOOL_CACHE_FILE, { servers: {} });
+}
+
+// JSON with sorted keys so the hash does not depend on key order in the config file
+function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonical(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function serverConfigHash(conf: ServerConfig): string {
+  return createHash("sha256").update(canonical(conf)).digest("hex");
+}
+
+/**
+ * Cached entry for a server, or undefined when missing, stale or fetched with a different config.
+ */
+export async function getCachedTools(
+  name: string,
+  conf: ServerConfig,
+  ttlSeconds: number
+): Promise<CachedServerTools | undefined> {
+  const db = await openToolCacheDb();
+  const entry = db.data.servers[name];
+  if (!entry || entry.hash !== serverConfigHash(conf)) return undefined;
+  // Entries written before capabilities were cached are refetched
+  if (!entry.capabilities) return undefined;
+  const age = (Date.now() - Date.parse(entry.fetchedAt)) / 1000;
+  return age < ttlSeconds ? entry : undefined;
+}
+
+export async function putCachedTools(
+  name: string,
+  conf: ServerConfig,
+  tools: any[],
+  capabilities: Record<string, any>
+): Promise<void> {
+  const db = await openToolCacheDb();
+  await db.update(({ servers }) => {
+    servers[name] = {
+      hash: serverConfigHash(conf),
+      fetchedAt: new Date().toISOString(),
+      tools,
+      capabilities,
+    };
+  });
+}
+
+/**
+ * Drop a server's cached tools (e.g. after it reported a changed tool list).
+ */
+export async function invalidateCachedTools(name: string): Promise<void> {
+  const db = await openToolCacheDb();
+  if (!db.data.servers[name]) return;
+  await db.update(({ servers }) => {
+    delete servers[name];
+  });
+}
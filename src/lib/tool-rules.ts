@@ -0,0 +1,117 @@
+import type { ArgumentCondition, ToolRule } from "../types.js";
+
+/**
+ * Argument-level tool policies: `tool_rules` on a server and on an agent's policy for it,
+ * checked against each call's arguments before the tool runs.
+ */
+export type RuleVerdict =
+  | { action: "allow" }
+  | { action: "confirm"; rule: ToolRule }
+  | { action: "deny"; reason: string; rule?: ToolRule };
+
+const patterns = new Map<string, RegExp>();
+
+function regex(pattern: string) {
+  let re = patterns.get(pattern);
+  if (!re) {
+    re = new RegExp(pattern);
+    patterns.set(pattern, re);
+  }
+  return re;
+}
+
+// Argument at a dotted path ("options.force"); undefined when missing
+function argumentAt(args: Record<string, any>, path: string) {
+  let value: any = args;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+const asText = (v: unknown) => (typeof v === "string" ? v : JSON.stringify(v));
+const same = (a: unknown, b: unknown) => asText(a) === asText(b);
+
+function holdsFor(value: unknown, c: ArgumentCondition) {
+  if (c.matches !== undefined && !regex(c.matches).test(asText(value))) {
+    return false;
+  }
+  if (c.not_matches !== undefined && regex(c.not_matches).test(asText(value))) {
+    return false;
+  }
+  if (c.equals !== undefined && !same(value, c.equals)) return false;
+  if (c.in && !c.in.some((v) => same(value, v))) return false;
+  if (c.not_in && c.not_in.some((v) => same(value, v))) return false;
+  return true;
+}
+
+function conditionHolds(value: unknown, c: ArgumentCondition) {
+  if (value === undefined) return c.exists === false;
+  if (c.exists === false) return false;
+  const { exists: _exists, ...checks } = c;
+  if (!Object.keys(checks).length) return true;
+  return Array.isArray(value)
+    ? value.some((v) => holdsFor(v, checks))
+    : holdsFor(value, checks);
+}
+
+function ruleMatches(rule: ToolRule, args: Record<string, any>) {
+  return Object.entries(rule.when ?? {}).every(([path, c]) =>
+    conditionHolds(argumentAt(args, path), c)
+  );
+}
+
+/**
+ * Short description of a rule for refusals and confirmation prompts.
+ */
+export function describeRule(rule: ToolRule): string {
+  const when = rule.when ? ` when ${JSON.stringify(rule.when)}` : "";
+  return `${rule.action} ${rule.tool}${when}${rule.reason ? ` (${rule.reason})` : ""}`;
+}
+
+/**
+ * Verdict for one call. `names` are the names rules may use for the tool (bare and
+ * qualified). A rule with an invalid pattern refuses the call.
+ */
+export function evaluateToolRules(
+  rules: ToolRule[],
+  names: string[],
+  args: Record<string, any>
+): RuleVerdict {
+  const applicable = rules.filter(
+    (r) => r.tool === "*" || names.includes(r.tool)
+  );
+  if (!applicable.length) return { action: "allow" };
+
+  const matching: ToolRule[] = [];
+  for (const rule of applicable) {
+    try {
+      if (ruleMatches(rule, args)) matching.push(rule);
+    } catch (e: any) {
+      return {
+        action: "deny",
+        reason: `Invalid tool rule "${describeRule(rule)}": ${e?.message ?? e}`,
+        rule,
+      };
+    }
+  }
+
+  const deny = matching.find((r) => r.action === "deny");
+  if (deny) {
+    return {
+      action: "deny",
+      reason: deny.reason ?? `Refused by rule: ${describeRule(deny)}`,
+      rule: deny,
+    };
+  }
+  const allowRules = applicable.filter((r) => r.action === "allow");
+  if (allowRules.length && !matching.some((r) => r.action === "allow")) {
+    return {
+      action: "deny",
+      reason: `Arguments match none of the allowed patterns: ${allowRules.map(describeRule).join("; ")}`,
+    };
+  }
+  const confirm = matching.find((r) => r.action === "confirm");
+  return confirm ? { action: "confirm", rule: confirm } : { action: "allow" };
+}
@@ -0,0 +1,119 @@
+/**
+ * Structured run trace for --output json / jsonl.
+ * One AgentTrace per chatWithOpenAI invocation; call_agent tool calls carry the nested
+ * invocation as `subtree`, so the trace mirrors the delegation tree.
+ */
+
+export type TraceTurn = {
+  step: number;
+  content: string;
+  tool_calls: Array<{ id?: string; name?: string; arguments: any }>;
+  finish_reason?: string;
+  usage?: any;
+  duration_ms: number;
+};
+
+export type TraceToolCall = {
+  tool_call_id?: string;
+  name: string;
+  arguments: any;
+  /**
+   * MCP server that served the call (absent for call_agent and unknown tools).
+   */
+  server?: string;
+  result: string;
+  started_at: string;
+  duration_ms: number;
+  /**
+   * Nested agent run for call_agent.
+   */
+  subtree?: AgentTrace;
+};
+
+export type AgentTrace = {
+  /**
+   * Dotted position in the delegation tree ("0", "0.1", "0.1.0", ...).
+   */
+  id: string;
+  agent: string;
+  depth: number;
+  query: string;
+  started_at: string;
+  duration_ms?: number;
+  turns: TraceTurn[];
+  tool_calls: TraceToolCall[];
+  answer?: string;
+};
+
+export type TraceEvent =
+  | {
+      event: "agent_start";
+      id: string;
+      agent: string;
+      depth: number;
+      query: string;
+    }
+  | ({ event: "model_turn"; id: string; agent: string } & TraceTurn)
+  | ({ event: "tool_call"; id: string; agent: string } & Omit<
+      TraceToolCall,
+      "subtree"
+    > & { subtree_id?: string })
+  | {
+      event: "agent_end";
+      id: string;
+      agent: string;
+      answer: string;
+      duration_ms: number;
+    }
+  | {
+      event: "run_end";
+      answer: string;
+      thread_id?: string;
+      exhausted: string | null;
+      usage: any;
+    };
+
+/**
+ * Shared by all AgentTrace nodes of a run; `emit` receives events as they happen (jsonl mode).
+ */
+export type TraceSink = {
+  emit?: (event: TraceEvent) => void;
+};
+
+export function createAgentTrace(
+  id: string,
+  agent: string,
+  depth: number,
+  query: string
+): AgentTrace {
+  return {
+    id,
+    agent,
+    depth,
+    query,
+    started_at: new Date().toISOString(),
+    turns: [],
+    tool_calls: [],
+  };
+}
+
+// Number of child traces created per node (kept out of the serialized trace)
+const childCounts = new WeakMap<AgentTrace, number>();
+
+/**
+ * Child trace for a call_agent invocation of `parent`.
+ */
+export function createChildTrace(
+  parent: AgentTrace,
+  agent: string,
+  query: string
+): AgentTrace {
+  const index = childCounts.get(parent) ?? 0;
+  childCounts.set(parent, index + 1);
+  return createAgentTrace(
+    `${parent.id}.${index}`,
+    agent,
+    parent.depth + 1,
+    query
+  );
+}
@@ -0,0 +1,195 @@
+import type { ModelPrice } from "../types.js";
+
+export type TokenCounts = {
+  requests: number;
+  prompt_tokens: number;
+  cached_prompt_tokens: number;
+  completion_tokens: number;
+  reasoning_tokens: number;
+  total_tokens: number;
+  /**
+   * USD cost of the calls that had a price configured. Calls for unpriced models add 0.
+   */
+  cost: number;
+};
+
+/**
+ * Usage recorded for one chatWithOpenAI invocation. Nested call_agent runs become children,
+ * so the tree mirrors the delegation tree of a run.
+ */
+export type UsageNode = TokenCounts & {
+  agent: string;
+  depth: number;
+  models: string[];
+  /**
+   * Models used without an entry in the configured price table.
+   */
+  unpricedModels: string[];
+  children: UsageNode[];
+};
+
+export type UsageSummary = {
+  total: TokenCounts;
+  byAgent: Record<string, TokenCounts>;
+  byDepth: Record<string, TokenCounts>;
+  unpricedModels: string[];
+  tree: UsageNode;
+};
+
+function emptyCounts(): TokenCounts {
+  return {
+    requests: 0,
+    prompt_tokens: 0,
+    cached_prompt_tokens: 0,
+    completion_tokens: 0,
+    reasoning_tokens: 0,
+    total_tokens: 0,
+    cost: 0,
+  };
+}
+
+function addCounts(into: TokenCounts, from: TokenCounts) {
+  into.requests += from.requests;
+  into.prompt_tokens += from.prompt_tokens;
+  into.cached_prompt_tokens += from.cached_prompt_tokens;
+  into.completion_tokens += from.completion_tokens;
+  into.reasoning_tokens += from.reasoning_tokens;
+  into.total_tokens += from.total_tokens;
+  into.cost += from.cost;
+}
+
+export function createUsageNode(agent: string, depth = 0): UsageNode {
+  return {
+    agent,
+    depth,
+    models: [],
+    unpricedModels: [],
+    children: [],
+    ...emptyCounts(),
+  };
+}
+
+export function addUsageChild(parent: UsageNode, agent: string): UsageNode {
+  const child = createUsageNode(agent, parent.depth + 1);
+  parent.children.push(child);
+  return child;
+}
+
+/**
+ * Resolve a model's price: exact match first, then the longest configured prefix
+ * (so "gpt-4o-mini" also prices dated variants like "gpt-4o-mini-2024-07-18").
+ */
+export function findModelPrice(
+  model: string,
+  pricing?: Record<string, ModelPrice>
+): ModelPrice | undefined {
+  if (!pricing) return undefined;
+  if (pricing[model]) return pricing[model];
+  const prefix = Object.keys(pricing)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Add one completion's `usage` object to a node, pricing it per 1M tokens when possible.
+ */
+export function recordUsage(
+  node: UsageNode | undefined,
+  usage: any,
+  model: string,
+  pricing?: Record<string, ModelPrice>
+) {
+  if (!node || !usage) return;
+  const prompt = usage.prompt_tokens ?? 0;
+  const cached = usage.prompt_tokens_details?.cached_tokens ?? 0;
+  const completion = usage.completion_tokens ?? 0;
+  node.requests += 1;
+  node.prompt_tokens += prompt;
+  node.cached_prompt_tokens += cached;
+  node.completion_tokens += completion;
+  node.reasoning_tokens +=
+    usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  node.total_tokens += usage.total_tokens ?? prompt + completion;
+  if (!node.models.includes(model)) node.models.push(model);
+
+  const price = findModelPrice(model, pricing);
+  if (!price) {
+    if (!node.unpricedModels.includes(model)) node.unpricedModels.push(model);
+    return;
+  }
+  // Cached prompt tokens are billed at the cached rate when one is configured
+  const cachedRate = price.cached_prompt ?? price.prompt;
+  node.cost +=
+    ((prompt - cached) * price.prompt +
+      cached * cachedRate +
+      completion * price.completion) /
+    1_000_000;
+}
+
+/**
+ * Aggregate a usage tree into run totals, per-agent and per-depth buckets.
+ */
+export function summarizeUsage(root: UsageNode): UsageSummary {
+  const total = emptyCounts();
+  const byAgent: Record<string, TokenCounts> = {};
+  const byDepth: Record<string, TokenCounts> = {};
+  const unpriced = new Set<string>();
+  const visit = (n: UsageNode) => {
+    addCounts(total, n);
+    addCounts((byAgent[n.agent] ??= emptyCounts()), n);
+    addCounts((byDepth[String(n.depth)] ??= emptyCounts()), n);
+    n.unpricedModels.forEach((m) => unpriced.add(m));
+    n.children.forEach(visit);
+  };
+  visit(root);
+  return {
+    total,
+    byAgent,
+    byDepth,
+    unpricedModels: [...unpriced],
+    tree: root,
+  };
+}
+
+function subtreeTotals(n: UsageNode): TokenCounts {
+  const t = emptyCounts();
+  addCounts(t, n);
+  for (const c of n.children) addCounts(t, subtreeTotals(c));
+  return t;
+}
+
+function formatCounts(c: TokenCounts): string {
+  const reasoning = c.reasoning_tokens
+    ? ` (reasoning ${c.reasoning_tokens})`
+    : "";
+  return `${c.requests} req, prompt ${c.prompt_tokens}, completion ${c.completion_tokens}${reasoning}, $${c.cost.toFixed(4)}`;
+}
+
+/**
+ * Human-readable usage report: the delegation tree (subtree totals per node),
+ * followed by per-agent and per-depth totals.
+ */
+export function formatUsageSummary(summary: UsageSummary): string {
+  const lines: string[] = ["Usage"];
+  const walk = (n: UsageNode, indent: string) => {
+    lines.push(`${indent}${n.agent}: ${formatCounts(subtreeTotals(n))}`);
+    for (const c of n.children) walk(c, indent + "  ");
+  };
+  walk(summary.tree, "  ");
+  lines.push("By agent");
+  for (const [agent, c] of Object.entries(summary.byAgent)) {
+    lines.push(`  ${agent}: ${formatCounts(c)}`);
+  }
+  lines.push("By depth");
+  for (const [depth, c] of Object.entries(summary.byDepth)) {
+    lines.push(`  ${depth}: ${formatCounts(c)}`);
+  }
+  lines.push(`Total: ${formatCounts(summary.total)}`);
+  if (summary.unpricedModels.length) {
+    lines.push(
+      `No price configured for: ${summary.unpricedModels.join(", ")} (add them under "pricing" in config)`
+    );
+  }
+  return lines.join("\n");
+}
@@ -1,3 +1,10 @@
+import { createHash } from "node:crypto";
+
+// Base64 length -> decoded byte count
+function base64Bytes(data: string) {
+  return Math.floor((data.length * 3) / 4);
+}
+
 export function normalizeMcpContentToString(content: any): string {
   try {
     const parts: string[] = [];
@@ -5,7 +12,27 @@ export function normalizeMcpContentToString(content: any): string {
     if (Array.isArray(items)) {
       for (const it of items) {
         if (it && typeof it === "object") {
-          if ("text" in it && typeof (it as any).text === "string") {
+          if (it.type === "resource" && it.resource) {
+            // Embedded resource: its text under a URI header (blobs are summarized)
+            const r = it.resource;
+            parts.push(
+              typeof r.text === "string"
+                ? `[resource ${r.uri}]\n${r.text}`
+                : `[resource ${r.uri} (${r.mimeType ?? "binary"}, ${base64Bytes(r.blob ?? "")} bytes) omitted]`
+            );
+          } else if (
+            (it.type === "image" || it.type === "audio") &&
+            typeof it.data === "string"
+          ) {
+            // Never inline base64 payloads
+            parts.push(
+              `[${it.type} (${it.mimeType ?? "unknown type"}, ${base64Bytes(it.data)} bytes) omitted]`
+            );
+          } else if (it.type === "resource_link" && it.uri) {
+            parts.push(
+              `[resource link ${it.uri}${it.name ? ` (${it.name})` : ""}]`
+            );
+          } else if ("text" in it && typeof (it as any).text === "string") {
             parts.push((it as any).text);
           } else if (
             "type" in it &&
@@ -45,3 +72,18 @@ export function safeParseJSON(input: string): any {
     return input;
   }
 }
+
+/**
+ * Model-facing name of an MCP tool: "<server>__<tool>", restricted to the characters and
+ * 64-character length providers accept. Over-long names end in a hash so they stay unique and stable.
+ */
+export function qualifiedToolName(server: string, tool: string): string {
+  const safe = (s: string) => s.replace(/[^a-zA-Z0-9_-]/g, "_");
+  const full = `${safe(server)}__${safe(tool)}`;
+  if (full.length <= 64) return full;
+  const hash = createHash("sha256")
+    .update(`${server}\0${tool}`)
+    .digest("hex")
+    .slice(0, 8);
+  return `${full.slice(0, 55)}_${hash}`;
+}
@@ -1,9 +1,18 @@
 export type LLMConfig = {
   model: string;
-  provider: string;
+  /**
+   * Provider adapter: "openai" (default), "ollama", "llamacpp" or "openai-compatible"
+   * (any server speaking the OpenAI chat completions API; set base_url).
+   */
+  provider?: string;
   api_key?: string;
   temperature: number;
   base_url?: string | null;
+  /**
+   * Whether the model accepts image input. When unset, the provider decides from the model
+   * name (OpenAI vision models); OpenAI-compatible providers assume it does not.
+   */
+  vision?: boolean;
 };
 
 /**
@@ -13,7 +22,7 @@ export type LLMConfig = {
 export type ServerConfig = {
   /**
    * stdio transport (default) — start a local MCP server as a child process.
-   * If provided, this transport will be used unless an sse.url is also provided (sse takes precedence).
+   * If provided, this transport will be used unless an http.url or sse.url is also provided (those take precedence).
    */
   command?: string;
   args?: string[];
@@ -24,6 +33,23 @@ export type ServerConfig = {
    */
   enabled?: boolean;
 
+  /**
+   * Streamable HTTP transport — connect to a remote MCP server over the current HTTP transport.
+   * Takes precedence over sse and command. Servers that only offer the older HTTP+SSE
+   * transport are retried over SSE at the same URL.
+   */
+  http?: {
+    /**
+     * The full HTTP(S) URL of the MCP endpoint.
+     * Example: https://your-host.example.com/mcp
+     */
+    url: string;
+    /**
+     * Optional HTTP headers to include (e.g., Authorization).
+     */
+    headers?: Record<string, string>;
+  };
+
   /**
    * SSE transport — connect to a remote MCP server over HTTP(S) Server-Sent Events.
    * When sse.url is provided, the client will connect using SSE instead of spawning a process.
@@ -55,6 +81,72 @@ export type ServerConfig = {
    * in this list will be exposed (before agent-level filtering).
    */
   include_tools?: string[];
+
+  /**
+   * Argument-level rules for this server's tools, checked before every call
+   * (together with the agent's rules for this server).
+   */
+  tool_rules?: ToolRule[];
+
+  /**
+   * Maximum number of in-flight tool calls to this server across the whole run
+   * (including nested call_agent runs). Useful for rate-limited backends. Unlimited if omitted.
+   */
+  max_concurrency?: number;
+
+  /**
+   * Timeout for each tool call to this server, in seconds (the MCP SDK default of 60 s otherwise).
+   */
+  call_timeout_seconds?: number;
+
+  /**
+   * Retries after a failed or timed-out call to an idempotent tool (default 0). Tools count as
+   * idempotent when listed in idempotent_tools or annotated readOnlyHint/idempotentHint by the server.
+   */
+  retries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds (default 500); doubles for each further retry.
+   */
+  retry_backoff_ms?: number;
+
+  /**
+   * Tools that are safe to retry (bare or server-qualified names).
+   */
+  idempotent_tools?: string[];
+
+  /**
+   * Consecutive failed calls after which the server is disabled for the rest of the run.
+   * No circuit breaking if omitted.
+   */
+  circuit_breaker_failures?: number;
+
+  /**
+   * Let this server request completions from the configured model (MCP sampling).
+   * `true` uses the default limits.
+   */
+  allow_sampling?: boolean | SamplingPolicy;
+
+  /**
+   * Directories advertised to this server as MCP roots (paths or file:// URIs).
+   * Defaults to the current working directory; an agent's `roots` take precedence.
+   */
+  roots?: string[];
+};
+
+export type SamplingPolicy = {
+  /**
+   * Cap on max_tokens of each request (default 1024).
+   */
+  max_tokens?: number;
+  /**
+   * Tokens this server may use across all its sampling requests in one process. Unlimited if omitted.
+   */
+  total_tokens?: number;
+  /**
+   * Show the requested messages and ask before running each request.
+   */
+  confirm?: boolean;
 };
 
 /**
@@ -69,6 +161,63 @@ export type AgentServerPolicy = {
    * Optional additional excludes for this agent (applied after include_tools).
    */
   exclude_tools?: string[];
+  /**
+   * If provided, only these resources (by URI or name) are visible through the
+   * list_resources_<server> / read_resource_<server> tools.
+   */
+  include_resources?: string[];
+  /**
+   * Resources (by URI or name) hidden from this agent.
+   */
+  exclude_resources?: string[];
+  /**
+   * Argument-level rules for this agent's calls to the server's tools; they add to the
+   * server's own tool_rules.
+   */
+  tool_rules?: ToolRule[];
+};
+
+/**
+ * Condition on one tool argument. All given checks must hold. For array arguments the
+ * condition holds when any element satisfies it.
+ */
+export type ArgumentCondition = {
+  /**
+   * Regex the value must match (non-strings are compared as JSON).
+   */
+  matches?: string;
+  /**
+   * Regex the value must not match.
+   */
+  not_matches?: string;
+  equals?: unknown;
+  in?: unknown[];
+  not_in?: unknown[];
+  /**
+   * Whether the argument is present. A missing argument satisfies nothing else.
+   */
+  exists?: boolean;
+};
+
+/**
+ * Rule on a tool's arguments. Any matching deny rule refuses the call; any matching confirm
+ * rule asks first. When a tool has allow rules, a call matching none of them is refused.
+ */
+export type ToolRule = {
+  /**
+   * Tool name (bare or server-qualified), or "*" for every tool of the server.
+   */
+  tool: string;
+  action: "allow" | "deny" | "confirm";
+  /**
+   * Conditions keyed by argument name (dotted paths reach nested fields); all must hold.
+   * Without conditions the rule matches every call of the tool.
+   */
+  when?: Record<string, ArgumentCondition>;
+  /**
+   * Why the rule exists; given to the model when a call is refused.
+   */
+  reason?: string;
 };
 
 /**
@@ -101,11 +250,63 @@ export type AgentConfig = {
    */
   servers?: Record<string, AgentServerPolicy>;
 
+  /**
+   * Directories advertised as MCP roots to every server this agent uses, instead of the
+   * servers' own `roots` (e.g. the repository a review agent works on).
+   */
+  roots?: string[];
+
   /**
    * Other agents this agent is allowed to call using the virtual "call_agent" tool.
    * If omitted, no agent-to-agent calls are permitted.
    */
   allowedAgents?: string[];
+
+  /**
+   * Maximum number of tool calls (including call_agent) this agent runs concurrently
+   * when the model requests several in one turn. Overrides app.tool_concurrency.
+   */
+  tool_concurrency?: number;
+
+  /**
+   * Per-agent budgets; override the global budgets for runs scoped to this agent.
+   */
+  budgets?: RunBudgets;
+};
+
+/**
+ * Run budgets. Any field left out falls back to the next level
+ * (CLI flags -> agent -> global config -> defaults).
+ */
+export type RunBudgets = {
+  /**
+   * Maximum model turns per agent invocation (default 32).
+   */
+  max_steps?: number;
+  /**
+   * Maximum call_agent delegation depth (default 5).
+   */
+  max_depth?: number;
+  /**
+   * Wall-clock limit for the whole run, in seconds.
+   */
+  max_seconds?: number;
+  /**
+   * Total token limit for the whole run, including nested agents.
+   */
+  max_tokens?: number;
+};
+
+/**
+ * Price of a model in USD per 1M tokens.
+ */
+export type ModelPrice = {
+  prompt: number;
+  completion: number;
+  /**
+   * Optional discounted rate for cached prompt tokens (defaults to the prompt rate).
+   */
+  cached_prompt?: number;
 };
 
 /**
@@ -117,6 +318,12 @@ export type AppConfig = {
   llm: LLMConfig;
   mcpServers: Record<string, ServerConfig>;
 
+  /**
+   * Optional .env file loaded before `${env:NAME}` references are resolved, relative to
+   * the config file. Variables already set in the environment win.
+   */
+  env_file?: string;
+
   /**
    * Optional directory path containing agent configs (JSON/JSONC files).
    * Defaults resolved by loader (e.g. ./agents or ~/.llm/agents).
@@ -129,11 +336,60 @@ export type AppConfig = {
    * directory definitions take precedence.
    */
   agents?: Record<string, AgentConfig>;
+
+  /**
+   * Default maximum number of tool calls run concurrently per assistant turn (default 4).
+   * Set to 1 to run tool calls sequentially.
+   */
+  tool_concurrency?: number;
+
+  /**
+   * Global run budgets (steps, delegation depth, wall-clock, tokens).
+   */
+  budgets?: RunBudgets;
+
+  /**
+   * Per-model price table used for the usage summary (--usage).
+   * Keys are model names or prefixes, e.g. "gpt-4o-mini".
+   */
+  pricing?: Record<string, ModelPrice>;
+
+  /**
+   * On-disk cache of each server's tool list (~/.llm/tool-cache.json), keyed by a hash of
+   * the server config. --force-refresh bypasses and rebuilds it.
+   */
+  tool_cache?: {
+    /**
+     * Set to false to always list tools live.
+     */
+    enabled?: boolean;
+    /**
+     * Seconds a cached tool list stays valid. Defaults to 3600.
+     */
+    ttl_seconds?: number;
+  };
+
+  /**
+   * Directory for binary tool output (audio, files, images the model cannot view),
+   * one subdirectory per run. Defaults to ~/.llm/artifacts.
+   */
+  artifacts_dir?: string;
+
+  /**
+   * Piped stdin handling (e.g. `git diff | llm p review`).
+   */
+  stdin?: {
+    /**
+     * Maximum number of bytes of piped input to attach; larger input is truncated.
+     * Defaults to 200000.
+     */
+    max_bytes?: number;
+  };
 };
 
 export type LoadedConfig = AppConfig & {
   /**
-   * Flattened list of tools across servers that require confirmation.
+   * Server-qualified names (see qualifiedToolName) of tools that require confirmation.
    */
   tools_requires_confirmation: string[];
 };